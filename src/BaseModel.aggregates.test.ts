@@ -0,0 +1,81 @@
+// src/BaseModel.aggregates.test.ts
+import { BaseModel } from "./BaseModel";
+import { ModelConfig } from "./decorators";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+@ModelConfig({ timestamps: false })
+class Order extends BaseModel {
+  public table = "orders";
+  public allowedFields = ["customer", "total", "status"];
+}
+
+describeEachConnection("projection and aggregates", (name) => {
+  // pg-mem rejects HAVING and miscounts DISTINCT subqueries; BaseModel.statements.test.ts checks the SQL on PostgreSQL
+  const itGroups = name === "pg-mem" ? it.skip : it;
+
+  beforeEach(async () => {
+    await Schema.create("orders", (table) => {
+      table.increments();
+      table.string("customer");
+      table.integer("total");
+      table.string("status");
+    });
+    for (const row of [
+      { customer: "a", total: 10, status: "paid" },
+      { customer: "a", total: 20, status: "paid" },
+      { customer: "b", total: 5, status: "open" },
+      { customer: "c", total: 100, status: "paid" },
+      { customer: "c", total: 1, status: "open" },
+    ]) await new Order().insert(row);
+  });
+
+  it("selects columns, aliases and distinct rows", async () => {
+    const open = await new Order().select("customer", "total as amount").where("status", "open").orderBy("id").get<Order>();
+    const customers = await new Order().select("customer").distinct().orderBy("customer").get<Order>();
+
+    expect(open.map((order) => order.toJSON())).toEqual([
+      { customer: "b", amount: 5 },
+      { customer: "c", amount: 1 },
+    ]);
+    expect(customers.map((order) => order.getAttribute("customer"))).toEqual(["a", "b", "c"]);
+  });
+
+  it("computes aggregates", async () => {
+    expect(await new Order().count()).toBe(5);
+    expect(await new Order().where("status", "paid").count()).toBe(3);
+    expect(await new Order().min("total")).toBe(1);
+    expect(await new Order().max("total")).toBe(100);
+    expect(await new Order().where("customer", "a").avg("total")).toBe(15);
+    expect(await new Order().where("status", "paid").sum("total")).toBe(130);
+    expect(await new Order().where("status", "refunded").sum("total")).toBe(0);
+    expect(await new Order().where("status", "refunded").max("total")).toBeNull();
+  });
+
+  itGroups("groups rows and filters groups", async () => {
+    const revenue = await new Order()
+      .select("customer")
+      .selectRaw("SUM(total) AS revenue")
+      .groupBy("customer")
+      .having("SUM(total)", ">", 10)
+      .orHaving("customer", "b")
+      .orderBy("customer")
+      .get<Order>();
+    const repeat = await new Order().select("customer").groupBy("customer").havingRaw("COUNT(*) > ?", [1]).orderBy("customer").get<Order>();
+
+    expect(revenue.map((row) => [row.getAttribute("customer"), Number(row.getAttribute("revenue"))])).toEqual([
+      ["a", 30],
+      ["b", 5],
+      ["c", 101],
+    ]);
+    expect(repeat.map((row) => row.getAttribute("customer"))).toEqual(["a", "c"]);
+  });
+
+  itGroups("counts distinct rows and groups rather than rows", async () => {
+    const page = await new Order().select("customer").groupBy("customer").orderBy("customer").paginate(2, 1);
+
+    expect(await new Order().select("customer").distinct().count()).toBe(3);
+    expect(await new Order().select("customer").groupBy("customer").count()).toBe(3);
+    expect([page.total, page.lastPage, page.data.length]).toEqual([3, 2, 2]);
+  });
+});
@@ -0,0 +1,124 @@
+// src/BaseModel.bulk.test.ts
+import { BaseModel } from "./BaseModel";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+import { BulkWriteOptions } from "./types/interfaces";
+
+const created: Product[] = [];
+
+class Product extends BaseModel {
+  public table = "products";
+  public allowedFields = ["sku", "name", "price"];
+
+  protected async afterCreate(data: Record<string, any>, model: this): Promise<void> {
+    created.push(model);
+  }
+}
+
+describeEachConnection("bulk writes", (name) => {
+  // pg-mem ignores ROLLBACK; BaseModel.statements.test.ts checks the rollback is sent
+  const itRollsBack = name === "pg-mem" ? it.skip : it;
+
+  beforeEach(async () => {
+    await Schema.create("products", (table) => {
+      table.increments();
+      table.string("sku").unique();
+      table.string("name");
+      table.integer("price").default(0);
+      table.timestamps();
+    });
+    await new Product().insertMany([
+      { sku: "A", name: "Apple", price: 1 },
+      { sku: "B", name: "Banana", price: 2 },
+    ]);
+  });
+
+  const products = async () =>
+    (await new Product().orderBy("id").get<Product>()).map((product) => [product.getAttribute("sku"), product.getAttribute("price")]);
+
+  it("inserts many rows", async () => {
+    expect(await products()).toEqual([
+      ["A", 1],
+      ["B", 2],
+    ]);
+  });
+
+  it("upserts on a unique column", async () => {
+    await new Product().upsert(
+      [
+        { sku: "A", name: "Apple", price: 10 },
+        { sku: "C", name: "Cherry", price: 3 },
+      ],
+      "sku",
+      ["price"]
+    );
+
+    expect(await products()).toEqual([
+      ["A", 10],
+      ["B", 2],
+      ["C", 3],
+    ]);
+  });
+
+  it("upserts on a key that is not in allowedFields", async () => {
+    await new Product().upsert([{ id: 2, sku: "B", name: "Banana", price: 20 }], "id");
+
+    expect(await products()).toEqual([
+      ["A", 1],
+      ["B", 20],
+    ]);
+  });
+
+  it("updates many rows with their own values", async () => {
+    const counts = await new Product().updateMany([
+      { id: 1, price: 5 },
+      { id: 2, price: 6, name: "Blueberry" },
+      { id: 9, price: 7 },
+    ]);
+
+    expect(counts).toEqual([1, 1, 0]);
+    expect(await products()).toEqual([
+      ["A", 5],
+      ["B", 6],
+    ]);
+  });
+
+  itRollsBack("rolls back every batch of updateMany when one fails", async () => {
+    const update = new Product().updateMany(
+      [
+        { id: 1, price: 5 },
+        { id: 2, sku: "A" },
+      ],
+      { batchSize: 1 }
+    );
+
+    await expect(update).rejects.toThrow();
+    expect(await products()).toEqual([
+      ["A", 1],
+      ["B", 2],
+    ]);
+  });
+
+  it("runs afterCreate on a model of every inserted row when asked to", async () => {
+    created.length = 0;
+    await new Product().insertMany([{ sku: "C", name: "Cherry", price: 3 }], { hooks: true });
+
+    expect(created.map((product) => [product instanceof Product, product.getAttribute("sku")])).toEqual([[true, "C"]]);
+  });
+
+  it("runs no create hooks on upsert, even given insertMany() options asking for them", async () => {
+    const options: BulkWriteOptions = { hooks: true };
+    created.length = 0;
+    await new Product().upsert(
+      [
+        { sku: "A", name: "Apple", price: 10 },
+        { sku: "C", name: "Cherry", price: 3 },
+      ],
+      "sku",
+      ["price"],
+      options
+    );
+
+    expect(created).toEqual([]);
+  });
+});
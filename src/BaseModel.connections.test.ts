@@ -0,0 +1,74 @@
+// src/BaseModel.connections.test.ts
+import { newDb } from "pg-mem";
+import { BaseModel } from "./BaseModel";
+import { ModelConfig } from "./decorators";
+import { Schema } from "./schema";
+
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name"];
+}
+
+@ModelConfig({ connection: "analytics", timestamps: false })
+class Event extends BaseModel {
+  public table = "events";
+  public allowedFields = ["user_id", "type"];
+}
+
+User.hasMany({ model: Event, foreignKey: "user_id", as: "events" });
+
+describe("named connections", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({
+      default: "main",
+      connections: {
+        main: { client: "postgres", connection: { driver: newDb().adapters.createPg() } },
+        analytics: { client: "sqlite", connection: { filename: ":memory:" } },
+      },
+    });
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+      table.timestamps();
+    });
+    await Schema.connection("analytics").create("events", (table) => {
+      table.increments();
+      table.integer("user_id");
+      table.string("type");
+    });
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  it("runs each model on its own connection", async () => {
+    const userId = await new User().insert({ name: "ann" });
+    await new Event().insert({ user_id: userId, type: "click" });
+
+    expect(User.getConnectionName()).toBe("main");
+    expect(Event.getConnectionName()).toBe("analytics");
+    expect(await Schema.hasTable("events")).toBe(false);
+    expect(await Schema.connection("analytics").hasTable("events")).toBe(true);
+
+    const [user] = await new User().with("events").get<any>();
+    expect(user.events.map((event: Event) => event.type)).toEqual(["click"]);
+  });
+
+  it("switches a single query to another connection with on()", async () => {
+    await new Event().insert({ user_id: 1, type: "click" });
+
+    expect(await new Event().on("analytics").count()).toBe(1);
+    await expect(new Event().on("main").count()).rejects.toThrow();
+    await expect(new Event().on("reporting").count()).rejects.toThrow("Database connection reporting is not configured");
+  });
+
+  it("opens a model's transaction on the model's connection", async () => {
+    await Event.transaction(async () => {
+      await new Event().insert({ user_id: 1, type: "rolled back" });
+      await new User().insert({ name: "kept" });
+      throw new Error("rollback");
+    }).catch(() => undefined);
+
+    expect(await new Event().count()).toBe(0);
+    expect(await new User().count()).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+// src/BaseModel.counts.test.ts
+import { BaseModel } from "./BaseModel";
+import { ModelConfig } from "./decorators";
+import { Schema } from "./schema";
+
+@ModelConfig({ timestamps: false })
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name"];
+}
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class Order extends BaseModel {
+  public table = "orders";
+  public allowedFields = ["total", "user_id", "status", "deleted_at"];
+}
+
+@ModelConfig({ timestamps: false })
+class Subscription extends BaseModel {
+  public table = "subscriptions";
+  public allowedFields = ["user_id", "plan"];
+}
+
+@ModelConfig({ timestamps: false })
+class Role extends BaseModel {
+  public table = "roles";
+  public allowedFields = ["name"];
+}
+
+User.hasMany({ model: Order, foreignKey: "user_id", as: "orders" });
+User.hasOne({ model: Subscription, foreignKey: "user_id", as: "subscription" });
+User.belongsToMany({ model: Role, pivotTable: "user_roles", foreignKey: "user_id", relatedKey: "role_id", as: "roles" });
+Order.belongsTo({ model: User, foreignKey: "user_id", as: "user" });
+
+// pg-mem doesn't support correlated subqueries; BaseModel.statements.test.ts checks the SQL on PostgreSQL
+describe("relation aggregates on SQLite", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({ client: "sqlite", connection: { filename: ":memory:" } });
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+    });
+    await Schema.create("orders", (table) => {
+      table.increments();
+      table.integer("total");
+      table.integer("user_id");
+      table.string("status");
+      table.softDeletes();
+    });
+    await Schema.create("subscriptions", (table) => {
+      table.increments();
+      table.integer("user_id");
+      table.string("plan");
+    });
+    await Schema.create("roles", (table) => {
+      table.increments();
+      table.string("name");
+    });
+    await Schema.create("user_roles", (table) => {
+      table.integer("user_id");
+      table.integer("role_id");
+    });
+    for (const row of [{ name: "ann" }, { name: "bob" }, { name: "cid" }]) await new User().insert(row);
+    for (const row of [
+      { total: 10, user_id: 1, status: "paid" },
+      { total: 20, user_id: 1, status: "open" },
+      { total: 5, user_id: 2, status: "paid" },
+      { total: 99, user_id: 2, status: "paid" },
+    ]) await new Order().insert(row);
+    await (await new Order().find<Order>(4))!.softDelete();
+    await new Subscription().insert({ user_id: 2, plan: "pro" });
+    for (const row of [{ name: "admin" }, { name: "dev" }]) await new Role().insert(row);
+    await BaseModel.getDefaultConnection().execute("INSERT INTO user_roles (user_id, role_id) VALUES (1, 1), (1, 2), (3, 2)");
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  it("adds counts, sums and existence flags of each relation", async () => {
+    const users = await new User()
+      .withCount(["orders", "roles"])
+      .withSum("orders", "total")
+      .withExists("subscription")
+      .orderBy("id")
+      .get();
+
+    expect(
+      users.map((user) => [
+        user.getAttribute("orders_count"),
+        user.getAttribute("roles_count"),
+        user.getAttribute("orders_sum_total"),
+        Boolean(user.getAttribute("subscription_exists")),
+      ])
+    ).toEqual([
+      [2, 2, 30, false],
+      [1, 0, 5, true],
+      [0, 1, null, false],
+    ]);
+  });
+
+  it("names and constrains aggregates", async () => {
+    const [ann] = await new User()
+      .select("name")
+      .withCount({ "orders as paid_count": (query) => query.where("status", "paid") })
+      .withAggregate("orders", "total", "max")
+      .where("id", 1)
+      .get();
+
+    expect(ann.toJSON()).toEqual({ name: "ann", paid_count: 1, orders_max_total: 20 });
+  });
+
+  it("keeps counting and paginating the models themselves", async () => {
+    const order = (await new Order().withExists("user").find<Order>(1))!;
+
+    expect(Boolean(order.getAttribute("user_exists"))).toBe(true);
+    expect(await new User().withCount("orders").count()).toBe(3);
+    expect((await new User().withCount("orders").paginate(2)).data).toHaveLength(2);
+  });
+});
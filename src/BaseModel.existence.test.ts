@@ -0,0 +1,109 @@
+// src/BaseModel.existence.test.ts
+import { BaseModel } from "./BaseModel";
+import { ModelConfig } from "./decorators";
+import { Schema } from "./schema";
+
+@ModelConfig({ timestamps: false })
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name"];
+}
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title", "user_id", "published", "deleted_at"];
+
+  static scopes = { published: (query: BaseModel) => query.where("published", true) };
+}
+
+@ModelConfig({ timestamps: false })
+class Comment extends BaseModel {
+  public table = "comments";
+  public allowedFields = ["body", "post_id"];
+}
+
+@ModelConfig({ timestamps: false })
+class Role extends BaseModel {
+  public table = "roles";
+  public allowedFields = ["name"];
+}
+
+User.hasMany({ model: Post, foreignKey: "user_id", as: "posts" });
+User.belongsToMany({ model: Role, pivotTable: "user_roles", foreignKey: "user_id", relatedKey: "role_id", as: "roles" });
+Post.belongsTo({ model: User, foreignKey: "user_id", as: "author" });
+Post.hasMany({ model: Comment, foreignKey: "post_id", as: "comments" });
+
+// pg-mem doesn't support correlated subqueries; BaseModel.statements.test.ts checks the SQL on PostgreSQL
+describe("relationship existence queries on SQLite", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({ client: "sqlite", connection: { filename: ":memory:" } });
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+    });
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+      table.integer("user_id");
+      table.boolean("published");
+      table.softDeletes();
+    });
+    await Schema.create("comments", (table) => {
+      table.increments();
+      table.string("body");
+      table.integer("post_id");
+    });
+    await Schema.create("roles", (table) => {
+      table.increments();
+      table.string("name");
+    });
+    await Schema.create("user_roles", (table) => {
+      table.integer("user_id");
+      table.integer("role_id");
+    });
+    for (const row of [{ name: "ann" }, { name: "bob" }, { name: "cid" }, { name: "dan" }]) await new User().insert(row);
+    for (const row of [
+      { title: "p1", user_id: 1, published: true },
+      { title: "p2", user_id: 1, published: false },
+      { title: "p3", user_id: 1, published: true },
+      { title: "p4", user_id: 2, published: false },
+      { title: "p5", user_id: 4, published: true },
+    ]) await new Post().insert(row);
+    await new Comment().insert({ body: "first", post_id: 4 });
+    for (const row of [{ name: "admin" }, { name: "dev" }]) await new Role().insert(row);
+    await BaseModel.getDefaultConnection().execute("INSERT INTO user_roles (user_id, role_id) VALUES (1, 1), (2, 2), (3, 2)");
+    await (await new Post().find<Post>(5))!.softDelete();
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  const names = async (query: BaseModel) => (await query.orderBy("id").get()).map((row) => row.getAttribute("name") ?? row.getAttribute("title"));
+
+  it("filters on related records, skipping soft deleted ones", async () => {
+    expect(await names(new User().has("posts"))).toEqual(["ann", "bob"]);
+    expect(await names(new User().has("posts", ">=", 3))).toEqual(["ann"]);
+    expect(await names(new User().doesntHave("posts"))).toEqual(["cid", "dan"]);
+    expect(await new User().has("posts").count()).toBe(2);
+  });
+
+  it("constrains the related query", async () => {
+    expect(await names(new User().whereHas("posts", (query) => query.published()))).toEqual(["ann"]);
+    expect(await names(new User().whereDoesntHave("posts", (query) => query.where("published", true)))).toEqual(["bob", "cid", "dan"]);
+    expect(await names(new User().where("name", "dan").orWhereHas("roles", (query) => query.where("roles.name", "admin")))).toEqual([
+      "ann",
+      "dan",
+    ]);
+  });
+
+  it("follows pivot, belongsTo and nested relations", async () => {
+    expect(await names(new User().whereHas("roles", (query) => query.where("roles.name", "dev")))).toEqual(["bob", "cid"]);
+    expect(await names(new Post().whereHas("author", (query) => query.where("name", "bob")))).toEqual(["p4"]);
+    expect(await names(new User().has("posts.comments"))).toEqual(["bob"]);
+    expect(await names(new User().whereHas("posts.comments", (query) => query.where("body", "missing")))).toEqual([]);
+  });
+
+  it("rejects unknown relations", () => {
+    expect(() => new User().whereHas("followers")).toThrow("Relation followers not defined on User");
+  });
+});
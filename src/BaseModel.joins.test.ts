@@ -0,0 +1,111 @@
+// src/BaseModel.joins.test.ts
+import { BaseModel } from "./BaseModel";
+import { ModelConfig } from "./decorators";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name", "deleted_at"];
+}
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title", "user_id", "status", "deleted_at"];
+}
+
+@ModelConfig({ timestamps: false })
+class Role extends BaseModel {
+  public table = "roles";
+  public allowedFields = ["name"];
+}
+
+User.hasMany({ model: Post, foreignKey: "user_id", as: "posts" });
+User.belongsToMany({ model: Role, pivotTable: "user_roles", foreignKey: "user_id", relatedKey: "role_id", as: "roles" });
+Post.belongsTo({ model: User, foreignKey: "user_id", as: "user" });
+
+describeEachConnection("joins", (name) => {
+  // pg-mem doesn't support CROSS JOIN; BaseModel.statements.test.ts checks the SQL on PostgreSQL
+  const itCrossJoins = name === "pg-mem" ? it.skip : it;
+
+  beforeEach(async () => {
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+      table.softDeletes();
+    });
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+      table.integer("user_id");
+      table.string("status");
+      table.softDeletes();
+    });
+    await Schema.create("roles", (table) => {
+      table.increments();
+      table.string("name");
+    });
+    await Schema.create("user_roles", (table) => {
+      table.integer("user_id");
+      table.integer("role_id");
+    });
+    for (const row of [{ name: "ann" }, { name: "bob" }, { name: "cid" }]) await new User().insert(row);
+    for (const row of [
+      { title: "p1", user_id: 1, status: "published" },
+      { title: "p2", user_id: 1, status: "draft" },
+      { title: "p3", user_id: 2, status: "published" },
+    ]) await new Post().insert(row);
+    for (const row of [{ name: "admin" }, { name: "dev" }]) await new Role().insert(row);
+    await BaseModel.getDefaultConnection().execute("INSERT INTO user_roles (user_id, role_id) VALUES (1, 1), (1, 2), (3, 2)");
+  });
+
+  const attributes = (rows: BaseModel[], ...keys: string[]) => rows.map((row) => keys.map((key) => row.getAttribute(key)));
+
+  it("joins tables with aliases and join callbacks", async () => {
+    const published = await new User()
+      .join("posts as p", "p.user_id", "=", "users.id")
+      .select("users.id", "users.name", "p.title")
+      .where("p.status", "published")
+      .orderBy("p.id")
+      .get();
+    const left = await new User()
+      .leftJoin("posts", (join) => join.on("posts.user_id", "users.id").where("posts.status", "published"))
+      .select("users.name", "posts.title")
+      .orderBy("users.id")
+      .get();
+
+    expect(attributes(published, "id", "name", "title")).toEqual([
+      [1, "ann", "p1"],
+      [2, "bob", "p3"],
+    ]);
+    expect(attributes(left, "name", "title")).toEqual([
+      ["ann", "p1"],
+      ["bob", "p3"],
+      ["cid", null],
+    ]);
+  });
+
+  itCrossJoins("cross joins tables", async () => {
+    expect(await new User().crossJoin("roles").count()).toBe(6);
+  });
+
+  it("joins relations and selects the model's columns by default", async () => {
+    const authors = await new User().joinRelation("posts").where("posts.title", "p3").get();
+    const posts = await new Post().joinRelation("user").where("users.name", "ann").orderBy("posts.id").get();
+    const developers = await new User().joinRelation("roles").where("roles.name", "dev").orderBy("users.id").get();
+
+    expect(attributes(authors, "id", "name")).toEqual([[2, "bob"]]);
+    expect(attributes(posts, "title")).toEqual([["p1"], ["p2"]]);
+    expect(attributes(developers, "name")).toEqual([["ann"], ["cid"]]);
+    expect(await new User().joinRelation("roles", "LEFT").count()).toBe(4);
+  });
+
+  it("applies the model's soft deletes to joined queries", async () => {
+    await (await new User().find<User>(2))!.softDelete();
+
+    expect(attributes(await new User().joinRelation("posts").orderBy("posts.id").get(), "name")).toEqual([["ann"], ["ann"]]);
+    expect(attributes(await new User().joinRelation("posts").onlyTrashed().get(), "name")).toEqual([["bob"]]);
+  });
+});
@@ -0,0 +1,156 @@
+// src/BaseModel.morph.test.ts
+import { BaseModel } from "./BaseModel";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+class Comment extends BaseModel {
+  public table = "comments";
+  public allowedFields = ["commentable_type", "commentable_id", "body"];
+}
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title"];
+}
+
+class Video extends BaseModel {
+  public table = "videos";
+  public allowedFields = ["title"];
+}
+
+class Image extends BaseModel {
+  public table = "images";
+  public allowedFields = ["imageable_type", "imageable_id", "path"];
+}
+
+class Tag extends BaseModel {
+  public table = "tags";
+  public allowedFields = ["title"];
+}
+
+Comment.morphTo({ as: "commentable" });
+Post.morphMany({ model: Comment, morphName: "commentable", as: "comments" });
+Video.morphMany({ model: Comment, morphName: "commentable", as: "comments" });
+Post.morphOne({ model: Image, morphName: "imageable", as: "image" });
+Post.morphToMany({ model: Tag, morphName: "taggable", as: "tags", withPivot: ["note"], pivotTimestamps: false });
+Video.morphToMany({ model: Tag, morphName: "taggable", as: "tags", pivotTimestamps: false });
+BaseModel.morphMap({ video: Video });
+
+describeEachConnection("polymorphic relations", (name) => {
+  // pg-mem doesn't support correlated subqueries; BaseModel.statements.test.ts checks the SQL on PostgreSQL
+  const itCorrelates = name === "pg-mem" ? it.skip : it;
+
+  beforeEach(async () => {
+    for (const table of ["posts", "videos", "tags"]) {
+      await Schema.create(table, (blueprint) => {
+        blueprint.increments();
+        blueprint.string("title");
+        blueprint.timestamps();
+      });
+    }
+    await Schema.create("comments", (table) => {
+      table.increments();
+      table.string("commentable_type");
+      table.integer("commentable_id");
+      table.string("body");
+      table.timestamps();
+    });
+    await Schema.create("images", (table) => {
+      table.increments();
+      table.string("imageable_type");
+      table.integer("imageable_id");
+      table.string("path");
+      table.timestamps();
+    });
+    await Schema.create("taggables", (table) => {
+      table.integer("tag_id");
+      table.string("taggable_type");
+      table.integer("taggable_id");
+      table.string("note").nullable();
+    });
+
+    await new Post().insertMany([{ title: "p1" }, { title: "p2" }]);
+    await new Video().insert({ title: "v1" });
+    await new Tag().insertMany([{ title: "t1" }, { title: "t2" }]);
+    await new Comment().insertMany([
+      { commentable_type: "Post", commentable_id: 1, body: "c1" },
+      { commentable_type: "Post", commentable_id: 2, body: "c2" },
+      { commentable_type: "video", commentable_id: 1, body: "c3" },
+      { commentable_type: "Post", commentable_id: 1, body: "c4" },
+    ]);
+    await new Image().insertMany([
+      { imageable_type: "Post", imageable_id: 2, path: "p2.png" },
+      { imageable_type: "video", imageable_id: 1, path: "v1.png" },
+    ]);
+  });
+
+  const titles = (rows: BaseModel[]) => rows.map((row) => row.getAttribute("title") ?? row.getAttribute("body"));
+
+  it("stores the class name or the morph map alias as the type", () => {
+    expect(Post.getMorphClass()).toBe("Post");
+    expect(Video.getMorphClass()).toBe("video");
+  });
+
+  it("loads the parent of a morphTo relation", async () => {
+    const comments = await new Comment().with("commentable").orderBy("id").get<any>();
+    const lazy = (await new Comment().find<any>(3))!;
+    await lazy.load(["commentable"]);
+
+    expect(comments.map((comment) => [comment.getAttribute("body"), comment.commentable.getAttribute("title")])).toEqual([
+      ["c1", "p1"],
+      ["c2", "p2"],
+      ["c3", "v1"],
+      ["c4", "p1"],
+    ]);
+    expect(comments[2].commentable).toBeInstanceOf(Video);
+    expect(lazy.commentable.getAttribute("title")).toBe("v1");
+  });
+
+  it("loads and queries morphMany and morphOne relations by type", async () => {
+    const posts = await new Post().with(["comments", "image"]).orderBy("id").get<any>();
+    const video = (await new Video().first<Video>())!;
+
+    expect(posts.map((post) => [titles(post.comments), post.image?.getAttribute("path") ?? null])).toEqual([
+      [["c1", "c4"], null],
+      [["c2"], "p2.png"],
+    ]);
+    expect(titles(await video.related("comments").get())).toEqual(["c3"]);
+    expect(await posts[0].related("comments").count()).toBe(2);
+  });
+
+  it("attaches, loads and syncs morphToMany relations per type", async () => {
+    const post = (await new Post().find<Post>(1))!;
+    const video = (await new Video().find<Video>(1))!;
+    await post.related("tags").attach({ 1: { note: "first" }, 2: {} });
+    await video.related("tags").attach(1);
+
+    const tags = await post.related("tags").orderBy("tags.id").get<any>();
+    expect(tags.map((tag) => [tag.getAttribute("title"), tag.pivot.note])).toEqual([
+      ["t1", "first"],
+      ["t2", null],
+    ]);
+    expect((await new Post().with("tags").orderBy("id").get<any>()).map((row) => titles(row.tags))).toEqual([["t1", "t2"], []]);
+
+    expect(await video.related("tags").sync([2])).toEqual({ attached: [2], detached: [1], updated: [] });
+    expect(await post.related("tags").count()).toBe(2);
+  });
+
+  itCorrelates("filters and counts through morph relations", async () => {
+    await (await new Post().find<Post>(1))!.related("tags").attach([1, 2]);
+
+    const counts = await new Post().withCount(["comments", "tags"]).orderBy("id").get();
+    expect(counts.map((post) => [post.getAttribute("comments_count"), post.getAttribute("tags_count")])).toEqual([
+      [2, 2],
+      [1, 0],
+    ]);
+    expect(titles(await new Post().whereHas("comments", (query) => query.where("body", "c4")).get())).toEqual(["p1"]);
+  });
+
+  it("rejects morph types missing from the morph map", async () => {
+    await new Comment().insert({ commentable_type: "Unknown", commentable_id: 1, body: "orphan" });
+
+    await expect(new Comment().with("commentable").get()).rejects.toThrow(
+      "No model registered for morph type Unknown. Add it with BaseModel.morphMap()"
+    );
+  });
+});
@@ -0,0 +1,59 @@
+// src/BaseModel.pagination.test.ts
+import { BaseModel } from "./BaseModel";
+import { Dialect } from "./database/dialects";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title", "published_at"];
+}
+
+describeEachConnection("pagination", () => {
+  beforeEach(async () => {
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+      table.timestamp("published_at");
+    });
+    for (let day = 1; day <= 5; day++) {
+      await new Post().insert({ title: `post ${day}`, published_at: new Date(Date.UTC(2024, 0, day, 12)) });
+    }
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const titles = (posts: Post[]) => posts.map((post) => post.getAttribute("title"));
+
+  it("pages with offsets", async () => {
+    const page = await new Post().orderBy("id").paginate(2, 3);
+    expect(page).toMatchObject({ total: 5, perPage: 2, currentPage: 3, lastPage: 3 });
+    expect(titles(page.data)).toEqual(["post 5"]);
+  });
+
+  it("pages forwards and backwards with cursors on a date column", async () => {
+    const first = await new Post().orderBy("published_at", "DESC").cursorPaginate<Post>(2);
+    expect(titles(first.data)).toEqual(["post 5", "post 4"]);
+
+    const second = await new Post().orderBy("published_at", "DESC").cursorPaginate<Post>(2, first.nextCursor);
+    expect(titles(second.data)).toEqual(["post 3", "post 2"]);
+
+    const back = await new Post().orderBy("published_at", "DESC").cursorPaginate<Post>(2, second.prevCursor);
+    expect(titles(back.data)).toEqual(["post 5", "post 4"]);
+    expect(back.prevCursor).toBeNull();
+  });
+
+  it("binds Date cursor values through the dialect's date format", async () => {
+    const first = await new Post().orderBy("published_at", "DESC").cursorPaginate<Post>(2);
+    const lastValue = first.data[1].getAttribute("published_at");
+    const formatDate = jest.spyOn(Dialect.prototype, "formatDate");
+
+    await new Post().orderBy("published_at", "DESC").cursorPaginate(2, first.nextCursor);
+
+    if (lastValue instanceof Date) {
+      expect(formatDate).toHaveBeenCalledWith(lastValue);
+    } else {
+      expect(formatDate).not.toHaveBeenCalled();
+    }
+  });
+});
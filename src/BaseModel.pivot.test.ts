@@ -0,0 +1,69 @@
+// src/BaseModel.pivot.test.ts
+import { BaseModel } from "./BaseModel";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+class Role extends BaseModel {
+  public table = "roles";
+  public allowedFields = ["name"];
+}
+
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name"];
+}
+
+User.belongsToMany({ model: Role, as: "roles", pivotTable: "role_user", withPivot: ["level"], pivotTimestamps: false });
+
+describeEachConnection("pivot tables", (name) => {
+  // pg-mem ignores ROLLBACK; BaseModel.statements.test.ts checks the rollback is sent
+  const itRollsBack = name === "pg-mem" ? it.skip : it;
+  let user: User;
+
+  beforeEach(async () => {
+    for (const table of ["users", "roles"]) {
+      await Schema.create(table, (blueprint) => {
+        blueprint.increments();
+        blueprint.string("name");
+        blueprint.timestamps();
+      });
+    }
+    await Schema.create("role_user", (table) => {
+      table.integer("user_id");
+      table.integer("role_id");
+      table.string("level").nullable();
+    });
+
+    await new Role().insertMany([{ name: "admin" }, { name: "editor" }, { name: "viewer" }]);
+    user = new User().fill({ name: "ann" });
+    await user.save();
+  });
+
+  const roles = async () =>
+    (await user.related<Role>("roles").orderBy("roles.id").get<Role>()).map((role) => `${role.getAttribute("name")}:${role.pivot?.level ?? ""}`);
+
+  it("attaches, detaches and reads pivot attributes", async () => {
+    await user.related("roles").attach({ 1: { level: "high" }, 2: {} });
+    expect(await roles()).toEqual(["admin:high", "editor:"]);
+
+    expect(await user.related("roles").detach(2)).toBe(1);
+    expect(await roles()).toEqual(["admin:high"]);
+  });
+
+  it("syncs and toggles the attached records", async () => {
+    await user.related("roles").attach([1, 2]);
+
+    expect(await user.related("roles").sync({ 2: { level: "low" }, 3: {} })).toEqual({ attached: [3], detached: [1], updated: [2] });
+    expect(await roles()).toEqual(["editor:low", "viewer:"]);
+
+    expect(await user.related("roles").toggle([1, 3])).toEqual({ attached: [1], detached: [3] });
+    expect(await roles()).toEqual(["admin:", "editor:low"]);
+  });
+
+  itRollsBack("leaves the pivot table untouched when a sync fails", async () => {
+    await user.related("roles").attach([1, 2]);
+
+    await expect(user.related("roles").sync({ 3: { missing_column: 1 } })).rejects.toThrow();
+    expect(await roles()).toEqual(["admin:", "editor:"]);
+  });
+});
@@ -0,0 +1,124 @@
+// src/BaseModel.related.test.ts
+import { BaseModel } from "./BaseModel";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name"];
+}
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title", "user_id"];
+}
+
+class Comment extends BaseModel {
+  public table = "comments";
+  public allowedFields = ["commentable_type", "commentable_id", "body"];
+}
+
+class Role extends BaseModel {
+  public table = "roles";
+  public allowedFields = ["name"];
+}
+
+User.hasMany({ model: Post, as: "posts" });
+User.belongsToMany({ model: Role, as: "roles", pivotTable: "role_user", withPivot: ["level"], pivotTimestamps: false });
+Post.belongsTo({ model: User, as: "user" });
+Post.morphMany({ model: Comment, morphName: "commentable", as: "comments" });
+Comment.morphTo({ as: "commentable" });
+
+describeEachConnection("related records", () => {
+  let user: User;
+
+  beforeEach(async () => {
+    for (const table of ["users", "roles"]) {
+      await Schema.create(table, (blueprint) => {
+        blueprint.increments();
+        blueprint.string("name");
+        blueprint.timestamps();
+      });
+    }
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+      table.integer("user_id").nullable();
+      table.timestamps();
+    });
+    await Schema.create("comments", (table) => {
+      table.increments();
+      table.string("commentable_type").nullable();
+      table.integer("commentable_id").nullable();
+      table.string("body");
+      table.timestamps();
+    });
+    await Schema.create("role_user", (table) => {
+      table.integer("user_id");
+      table.integer("role_id");
+      table.string("level").nullable();
+    });
+
+    user = new User().fill({ name: "ann" });
+    await user.save();
+  });
+
+  it("creates and saves records through hasMany and morphMany relations", async () => {
+    const post = await user.related("posts").create({ title: "first" });
+    const more = await user.related("posts").createMany([{ title: "second" }, { title: "third" }]);
+    const loose = new Post().fill({ title: "loose" });
+    await loose.save();
+    const comment = await post.related("comments").create({ body: "hi" });
+
+    expect(post).toBeInstanceOf(Post);
+    expect([post.exists, post.getAttribute("user_id")]).toEqual([true, user.getKey()]);
+    expect(more.map((row: Post) => row.getAttribute("user_id"))).toEqual([user.getKey(), user.getKey()]);
+    expect(await user.related("posts").save(loose)).toBe(loose);
+    expect(await user.related("posts").count()).toBe(4);
+    expect([comment.getAttribute("commentable_type"), comment.getAttribute("commentable_id")]).toEqual(["Post", post.getKey()]);
+  });
+
+  it("creates and saves records through belongsToMany with pivot attributes", async () => {
+    await user.related("roles").create({ name: "admin" }, { level: "owner" });
+    const dev = new Role().fill({ name: "dev" });
+    await dev.save();
+    await user.related("roles").save(dev, { level: "junior" });
+    await user.related("roles").save(dev, { level: "senior" });
+
+    const roles = await user.related("roles").orderBy("roles.id").get<any>();
+    expect(roles.map((role) => [role.getAttribute("name"), role.pivot.level])).toEqual([
+      ["admin", "owner"],
+      ["dev", "senior"],
+    ]);
+  });
+
+  it("associates and dissociates belongsTo and morphTo parents", async () => {
+    const post = await user.related("posts").create({ title: "first" });
+    const bob = new User().fill({ name: "bob" });
+    await bob.save();
+
+    expect(post.related("user").associate(bob)).toBe(post);
+    expect(post.user).toBe(bob);
+    await post.save();
+    expect((await new Post().find<Post>(post.getKey()))!.getAttribute("user_id")).toBe(bob.getKey());
+
+    post.related("user").dissociate();
+    await post.save();
+    expect((await new Post().find<Post>(post.getKey()))!.getAttribute("user_id")).toBeNull();
+
+    const comment = new Comment().fill({ body: "orphan" });
+    comment.related("commentable").associate(post);
+    await comment.save();
+    const reloaded = (await new Comment().with("commentable").find<any>(comment.getKey()))!;
+    expect(reloaded.commentable.getAttribute("title")).toBe("first");
+  });
+
+  it("rejects unsaved parents and the wrong relation types", async () => {
+    const post = await user.related("posts").create({ title: "first" });
+
+    await expect(new User().related("posts").create({ title: "x" })).rejects.toThrow("Cannot save posts of a User without a key; save it first");
+    expect(() => user.related("roles").associate(1)).toThrow("associate() expects a belongsTo or morphTo relation, roles is belongsToMany");
+    expect(() => post.related("comments").dissociate()).toThrow("dissociate() expects a belongsTo or morphTo relation, comments is morphMany");
+    await expect(new Post().create({ title: "x" })).rejects.toThrow("create() of related records needs a query from related()");
+  });
+});
@@ -0,0 +1,139 @@
+// src/BaseModel.scopes.test.ts
+import { BaseModel } from "./BaseModel";
+import { ModelConfig, Scope } from "./decorators";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name", "active", "deleted_at"];
+}
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title", "user_id", "deleted_at"];
+}
+
+@ModelConfig({ timestamps: false })
+class Member extends BaseModel {
+  public table = "members";
+  public allowedFields = ["name", "age", "active"];
+
+  static scopes = {
+    active: (query: BaseModel) => query.where("active", true),
+    olderThan: (query: BaseModel, age: number) => query.where("age", ">", age),
+  };
+
+  @Scope()
+  named(name: string): this {
+    return this.where("name", name);
+  }
+}
+
+class Veteran extends Member {
+  static scopes = { ...Member.scopes, olderThan: (query: BaseModel, age: number) => query.where("age", ">=", age) };
+}
+
+class Conflicting extends BaseModel {
+  static scopes = { get: (query: BaseModel) => query };
+}
+
+User.addGlobalScope("active", (query) => query.where("active", true));
+User.hasMany({ model: Post, foreignKey: "user_id", as: "posts" });
+
+describeEachConnection("scopes", () => {
+  beforeEach(async () => {
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+      table.boolean("active").default(true);
+      table.softDeletes();
+    });
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+      table.integer("user_id");
+      table.softDeletes();
+    });
+    for (const row of [
+      { name: "ann", active: true },
+      { name: "bob", active: true },
+      { name: "cid", active: false },
+    ]) await new User().insert(row);
+    for (const row of [
+      { title: "kept", user_id: 1 },
+      { title: "trashed", user_id: 1 },
+    ]) await new Post().insert(row);
+    await Schema.create("members", (table) => {
+      table.increments();
+      table.string("name");
+      table.integer("age");
+      table.boolean("active");
+    });
+    for (const row of [
+      { name: "ann", age: 20, active: true },
+      { name: "bob", age: 30, active: true },
+      { name: "cid", age: 40, active: false },
+    ]) await new Member().insert(row);
+    await (await new User().find<User>(2))!.softDelete();
+    await (await new Post().find<Post>(2))!.softDelete();
+  });
+
+  const names = (rows: BaseModel[]) => rows.map((row) => row.getAttribute("name") ?? row.getAttribute("title"));
+
+  describe("global scopes", () => {
+    it("applies soft deletes and registered scopes to every query", async () => {
+      expect(names(await new User().get())).toEqual(["ann"]);
+      expect(await new User().count()).toBe(1);
+      expect(await new User().find(2)).toBeNull();
+      expect(await new User().update(3, { name: "changed" })).toBe(false);
+    });
+
+    it("skips scopes on request", async () => {
+      expect(names(await new User().withTrashed().orderBy("id").get())).toEqual(["ann", "bob"]);
+      expect(names(await new User().onlyTrashed().get())).toEqual(["bob"]);
+      expect(names(await new User().withoutGlobalScope("active").orderBy("id").get())).toEqual(["ann", "cid"]);
+      expect(names(await new User().withoutGlobalScopes().orderBy("id").get())).toEqual(["ann", "bob", "cid"]);
+    });
+
+    it("applies the related model's scopes to eager loads", async () => {
+      const [user] = await new User().with("posts").get<any>();
+      const [withTrashed] = await new User().with("posts", { constraints: { posts: (query) => query.withTrashed() } }).get<any>();
+
+      expect(names(user.posts)).toEqual(["kept"]);
+      expect(names(withTrashed.posts)).toEqual(["kept", "trashed"]);
+    });
+
+    it("restores and force deletes trashed records", async () => {
+      const bob = (await new User().withTrashed().find<User>(2))!;
+      await bob.restore();
+      expect(names(await new User().orderBy("id").get())).toEqual(["ann", "bob"]);
+
+      await bob.forceDelete();
+      expect(await new User().withoutGlobalScopes().count()).toBe(2);
+    });
+  });
+
+  describe("local scopes", () => {
+    it("chains scopes as builder methods or by name", async () => {
+      expect(names(await new Member().active().olderThan(25).get())).toEqual(["bob"]);
+      expect(names(await new Member().scope("olderThan", 25).orderBy("id").get())).toEqual(["bob", "cid"]);
+      expect(names(await new Member().named("cid").get())).toEqual(["cid"]);
+      expect(names(await new Member().where("name", "ann").orWhereGroup((query) => query.active().olderThan(25)).orderBy("id").get())).toEqual([
+        "ann",
+        "bob",
+      ]);
+    });
+
+    it("lets subclasses override scopes", async () => {
+      expect(names(await new Veteran().olderThan(30).orderBy("id").get())).toEqual(["bob", "cid"]);
+    });
+
+    it("rejects unknown scopes and names taken by the builder", () => {
+      expect(() => new Member().scope("retired")).toThrow("Scope retired not defined on Member");
+      expect(() => new Conflicting()).toThrow("Scope get conflicts with an existing member of Conflicting");
+    });
+  });
+});
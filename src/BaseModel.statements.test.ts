@@ -0,0 +1,252 @@
+// src/BaseModel.statements.test.ts
+import { BaseModel } from "./BaseModel";
+import { ModelConfig } from "./decorators";
+import { RecordingConnection, recordStatements } from "./testing/recording";
+
+@ModelConfig({ timestamps: false, softDeletes: true })
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name", "country_id", "deleted_at"];
+}
+
+@ModelConfig({ timestamps: false })
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title", "user_id", "total"];
+}
+
+@ModelConfig({ timestamps: false })
+class Role extends BaseModel {
+  public table = "roles";
+  public allowedFields = ["name"];
+}
+
+@ModelConfig({ timestamps: false })
+class Comment extends BaseModel {
+  public table = "comments";
+  public allowedFields = ["commentable_type", "commentable_id", "body"];
+}
+
+@ModelConfig({ timestamps: false })
+class Country extends BaseModel {
+  public table = "countries";
+  public allowedFields = ["name"];
+}
+
+@ModelConfig({ timestamps: false })
+class Product extends BaseModel {
+  public table = "products";
+  public allowedFields = ["sku", "name", "price"];
+}
+
+User.hasMany({ model: Post, foreignKey: "user_id", as: "posts" });
+User.belongsToMany({ model: Role, pivotTable: "role_user", withPivot: ["level"], pivotTimestamps: false, as: "roles" });
+Post.morphMany({ model: Comment, morphName: "commentable", as: "comments" });
+Country.hasManyThrough({ model: Post, through: User, as: "posts" });
+
+// The statements pg-mem can't run, and those of MySQL, checked as compiled
+describe.each(["mysql", "postgres"] as const)("statements compiled for %s", (client) => {
+  let connection: RecordingConnection;
+
+  beforeEach(async () => {
+    connection = await recordStatements(client);
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  it("groups with HAVING and counts distinct rows and groups", async () => {
+    await new Post()
+      .select("user_id")
+      .selectRaw("SUM(total) AS revenue")
+      .groupBy("user_id")
+      .having("SUM(total)", ">", 10)
+      .orHaving("user_id", 2)
+      .get();
+    await new Post().select("user_id").groupBy("user_id").havingRaw("COUNT(*) > ?", [1]).get();
+    await new Post().select("user_id").distinct().count();
+    await new Post().select("user_id").groupBy("user_id").count();
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          "SELECT `user_id`, SUM(total) AS revenue FROM `posts` GROUP BY `user_id` HAVING SUM(total) > ? OR `user_id` = ? [10,2]",
+          "SELECT `user_id` FROM `posts` GROUP BY `user_id` HAVING COUNT(*) > ? [1]",
+          "SELECT COUNT(*) AS `aggregate` FROM (SELECT DISTINCT `user_id` FROM `posts`) AS `aggregate_table`",
+          "SELECT COUNT(*) AS `aggregate` FROM (SELECT `user_id` FROM `posts` GROUP BY `user_id`) AS `aggregate_table`",
+        ],
+        postgres: [
+          'SELECT "user_id", SUM(total) AS revenue FROM "posts" GROUP BY "user_id" HAVING SUM(total) > $1 OR "user_id" = $2 [10,2]',
+          'SELECT "user_id" FROM "posts" GROUP BY "user_id" HAVING COUNT(*) > $1 [1]',
+          'SELECT COUNT(*) AS "aggregate" FROM (SELECT DISTINCT "user_id" FROM "posts") AS "aggregate_table"',
+          'SELECT COUNT(*) AS "aggregate" FROM (SELECT "user_id" FROM "posts" GROUP BY "user_id") AS "aggregate_table"',
+        ],
+      }[client]
+    );
+  });
+
+  it("cross joins and joins relations through the pivot table", async () => {
+    await new User().crossJoin("roles").count();
+    await new User().joinRelation("roles", "LEFT").where("roles.name", "dev").get();
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          "SELECT COUNT(*) AS `aggregate` FROM `users` CROSS JOIN `roles` WHERE  `users`.`deleted_at` IS NULL",
+          'SELECT `users`.* FROM `users` LEFT JOIN `role_user` ON `role_user`.`user_id` = `users`.`id` LEFT JOIN `roles` ON `roles`.`id` = `role_user`.`role_id` WHERE  `roles`.`name` = ? AND `users`.`deleted_at` IS NULL ["dev"]',
+        ],
+        postgres: [
+          'SELECT COUNT(*) AS "aggregate" FROM "users" CROSS JOIN "roles" WHERE  "users"."deleted_at" IS NULL',
+          'SELECT "users".* FROM "users" LEFT JOIN "role_user" ON "role_user"."user_id" = "users"."id" LEFT JOIN "roles" ON "roles"."id" = "role_user"."role_id" WHERE  "roles"."name" = $1 AND "users"."deleted_at" IS NULL ["dev"]',
+        ],
+      }[client]
+    );
+  });
+
+  it("filters on related records with correlated subqueries", async () => {
+    await new User().has("posts", ">=", 3).get();
+    await new User().whereHas("roles", (query) => query.where("roles.name", "dev")).orWhereDoesntHave("posts").get();
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          "SELECT * FROM `users` WHERE  (SELECT COUNT(*) FROM `posts` WHERE  `posts`.`user_id` = `users`.`id`) >= ? AND `users`.`deleted_at` IS NULL [3]",
+          'SELECT * FROM `users` WHERE  (EXISTS (SELECT `roles`.*, `role_user`.`user_id` AS `pivot_user_id`, `role_user`.`role_id` AS `pivot_role_id`, `role_user`.`level` AS `pivot_level` FROM `roles` INNER JOIN `role_user` ON `role_user`.`role_id` = `roles`.`id` WHERE  `role_user`.`user_id` = `users`.`id` AND `roles`.`name` = ?) OR NOT EXISTS (SELECT * FROM `posts` WHERE  `posts`.`user_id` = `users`.`id`)) AND `users`.`deleted_at` IS NULL ["dev"]',
+        ],
+        postgres: [
+          'SELECT * FROM "users" WHERE  (SELECT COUNT(*) FROM "posts" WHERE  "posts"."user_id" = "users"."id") >= $1 AND "users"."deleted_at" IS NULL [3]',
+          'SELECT * FROM "users" WHERE  (EXISTS (SELECT "roles".*, "role_user"."user_id" AS "pivot_user_id", "role_user"."role_id" AS "pivot_role_id", "role_user"."level" AS "pivot_level" FROM "roles" INNER JOIN "role_user" ON "role_user"."role_id" = "roles"."id" WHERE  "role_user"."user_id" = "users"."id" AND "roles"."name" = $1) OR NOT EXISTS (SELECT * FROM "posts" WHERE  "posts"."user_id" = "users"."id")) AND "users"."deleted_at" IS NULL ["dev"]',
+        ],
+      }[client]
+    );
+  });
+
+  it("adds relation aggregates as subquery columns", async () => {
+    await new User().withCount(["posts", "roles"]).withSum("posts", "total").withExists("posts").get();
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          "SELECT *, (SELECT COUNT(*) FROM `posts` WHERE  `posts`.`user_id` = `users`.`id`) AS `posts_count`, (SELECT COUNT(*) FROM `roles` INNER JOIN `role_user` ON `role_user`.`role_id` = `roles`.`id` WHERE  `role_user`.`user_id` = `users`.`id`) AS `roles_count`, (SELECT SUM(`posts`.`total`) FROM `posts` WHERE  `posts`.`user_id` = `users`.`id`) AS `posts_sum_total`, EXISTS (SELECT * FROM `posts` WHERE  `posts`.`user_id` = `users`.`id`) AS `posts_exists` FROM `users` WHERE  `users`.`deleted_at` IS NULL",
+        ],
+        postgres: [
+          'SELECT *, (SELECT COUNT(*) FROM "posts" WHERE  "posts"."user_id" = "users"."id") AS "posts_count", (SELECT COUNT(*) FROM "roles" INNER JOIN "role_user" ON "role_user"."role_id" = "roles"."id" WHERE  "role_user"."user_id" = "users"."id") AS "roles_count", (SELECT SUM("posts"."total") FROM "posts" WHERE  "posts"."user_id" = "users"."id") AS "posts_sum_total", EXISTS (SELECT * FROM "posts" WHERE  "posts"."user_id" = "users"."id") AS "posts_exists" FROM "users" WHERE  "users"."deleted_at" IS NULL',
+        ],
+      }[client]
+    );
+  });
+
+  it("counts and filters through morph and through relations", async () => {
+    await new Post().withCount("comments").whereHas("comments", (query) => query.where("body", "c4")).get();
+    await new Country().withCount("posts").whereHas("posts", (query) => query.where("posts.title", "p3")).get();
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          'SELECT *, (SELECT COUNT(*) FROM `comments` WHERE  `comments`.`commentable_type` = ? AND `comments`.`commentable_id` = `posts`.`id`) AS `comments_count` FROM `posts` WHERE  EXISTS (SELECT * FROM `comments` WHERE  `comments`.`commentable_type` = ? AND `comments`.`commentable_id` = `posts`.`id` AND `body` = ?) ["Post","Post","c4"]',
+          'SELECT *, (SELECT COUNT(*) FROM `posts` INNER JOIN `users` ON `users`.`id` = `posts`.`user_id` WHERE  `users`.`country_id` = `countries`.`id` AND `users`.`deleted_at` IS NULL) AS `posts_count` FROM `countries` WHERE  EXISTS (SELECT `posts`.*, `users`.`country_id` AS `through_key` FROM `posts` INNER JOIN `users` ON `users`.`id` = `posts`.`user_id` WHERE  `users`.`country_id` = `countries`.`id` AND `posts`.`title` = ? AND `users`.`deleted_at` IS NULL) ["p3"]',
+        ],
+        postgres: [
+          'SELECT *, (SELECT COUNT(*) FROM "comments" WHERE  "comments"."commentable_type" = $1 AND "comments"."commentable_id" = "posts"."id") AS "comments_count" FROM "posts" WHERE  EXISTS (SELECT * FROM "comments" WHERE  "comments"."commentable_type" = $2 AND "comments"."commentable_id" = "posts"."id" AND "body" = $3) ["Post","Post","c4"]',
+          'SELECT *, (SELECT COUNT(*) FROM "posts" INNER JOIN "users" ON "users"."id" = "posts"."user_id" WHERE  "users"."country_id" = "countries"."id" AND "users"."deleted_at" IS NULL) AS "posts_count" FROM "countries" WHERE  EXISTS (SELECT "posts".*, "users"."country_id" AS "through_key" FROM "posts" INNER JOIN "users" ON "users"."id" = "posts"."user_id" WHERE  "users"."country_id" = "countries"."id" AND "posts"."title" = $1 AND "users"."deleted_at" IS NULL) ["p3"]',
+        ],
+      }[client]
+    );
+  });
+
+  it("inserts in batches and upserts on the unique column", async () => {
+    await new Product().insertMany([
+      { sku: "A", name: "Apple", price: 1 },
+      { sku: "B", name: "Banana", price: 2 },
+    ]);
+    await new Product().upsert([{ sku: "A", name: "Apple", price: 10 }], "sku", ["price"]);
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          'INSERT INTO `products` (`name`, `price`, `sku`) VALUES (?, ?, ?), (?, ?, ?) ["Apple",1,"A","Banana",2,"B"]',
+          'INSERT INTO `products` (`name`, `price`, `sku`) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE `price` = VALUES(`price`) ["Apple",10,"A"]',
+        ],
+        postgres: [
+          'INSERT INTO "products" ("name", "price", "sku") VALUES ($1, $2, $3), ($4, $5, $6) ["Apple",1,"A","Banana",2,"B"]',
+          'INSERT INTO "products" ("name", "price", "sku") VALUES ($1, $2, $3) ON CONFLICT ("sku") DO UPDATE SET "price" = excluded."price" ["Apple",10,"A"]',
+        ],
+      }[client]
+    );
+  });
+
+  it("runs updateMany in a transaction, rolled back when a batch fails", async () => {
+    await new Product().updateMany([
+      { id: 1, price: 5 },
+      { id: 2, price: 6, name: "Blueberry" },
+    ]);
+    connection.failOn = /^UPDATE/;
+    await expect(new Product().updateMany([{ id: 1, price: 5 }])).rejects.toThrow("Failed on purpose");
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          "BEGIN",
+          "SELECT `id` FROM `products` WHERE `id` IN (?, ?) [1,2]",
+          'UPDATE `products` SET `name` = CASE `id` WHEN ? THEN ? ELSE `name` END, `price` = CASE `id` WHEN ? THEN ? WHEN ? THEN ? ELSE `price` END WHERE `id` IN (?, ?) [2,"Blueberry",1,5,2,6,1,2]',
+          "COMMIT",
+          "BEGIN",
+          "SELECT `id` FROM `products` WHERE `id` IN (?) [1]",
+          "UPDATE `products` SET `price` = CASE `id` WHEN ? THEN ? ELSE `price` END WHERE `id` IN (?) [1,5,1]",
+          "ROLLBACK",
+        ],
+        postgres: [
+          "BEGIN",
+          'SELECT "id" FROM "products" WHERE "id" IN ($1, $2) [1,2]',
+          'UPDATE "products" SET "name" = CASE "id" WHEN $1 THEN $2 ELSE "name" END, "price" = CASE "id" WHEN $3 THEN $4 WHEN $5 THEN $6 ELSE "price" END WHERE "id" IN ($7, $8) [2,"Blueberry",1,5,2,6,1,2]',
+          "COMMIT",
+          "BEGIN",
+          'SELECT "id" FROM "products" WHERE "id" IN ($1) [1]',
+          'UPDATE "products" SET "price" = CASE "id" WHEN $1 THEN $2 ELSE "price" END WHERE "id" IN ($3) [1,5,1]',
+          "ROLLBACK",
+        ],
+      }[client]
+    );
+  });
+
+  it("syncs the pivot table in a transaction, rolled back when a write fails", async () => {
+    connection.rows = [{ id: 1, name: "ann" }];
+    const user = (await new User().find<User>(1))!;
+    connection.rows = [{ role_id: 1 }, { role_id: 2 }];
+    connection.statements.length = 0;
+
+    await user.related("roles").sync({ 2: { level: "low" }, 3: {} });
+    connection.failOn = /^INSERT/;
+    await expect(user.related("roles").sync([3])).rejects.toThrow("Failed on purpose");
+
+    expect(connection.statements).toEqual(
+      {
+        mysql: [
+          "BEGIN",
+          "SELECT `role_id` FROM `role_user` WHERE `user_id` = ? [1]",
+          "DELETE FROM `role_user` WHERE `user_id` = ? AND `role_id` IN (?) [1,1]",
+          "INSERT INTO `role_user` (`role_id`, `user_id`) VALUES (?, ?) [3,1]",
+          'UPDATE `role_user` SET `level` = ? WHERE `user_id` = ? AND `role_id` = ? ["low",1,2]',
+          "COMMIT",
+          "BEGIN",
+          "SELECT `role_id` FROM `role_user` WHERE `user_id` = ? [1]",
+          "DELETE FROM `role_user` WHERE `user_id` = ? AND `role_id` IN (?, ?) [1,1,2]",
+          "INSERT INTO `role_user` (`role_id`, `user_id`) VALUES (?, ?) [3,1]",
+          "ROLLBACK",
+        ],
+        postgres: [
+          "BEGIN",
+          'SELECT "role_id" FROM "role_user" WHERE "user_id" = $1 [1]',
+          'DELETE FROM "role_user" WHERE "user_id" = $1 AND "role_id" IN ($2) [1,1]',
+          'INSERT INTO "role_user" ("role_id", "user_id") VALUES ($1, $2) [3,1]',
+          'UPDATE "role_user" SET "level" = $1 WHERE "user_id" = $2 AND "role_id" = $3 ["low",1,2]',
+          "COMMIT",
+          "BEGIN",
+          'SELECT "role_id" FROM "role_user" WHERE "user_id" = $1 [1]',
+          'DELETE FROM "role_user" WHERE "user_id" = $1 AND "role_id" IN ($2, $3) [1,1,2]',
+          'INSERT INTO "role_user" ("role_id", "user_id") VALUES ($1, $2) [3,1]',
+          "ROLLBACK",
+        ],
+      }[client]
+    );
+  });
+});
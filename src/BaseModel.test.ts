@@ -0,0 +1,116 @@
+// src/BaseModel.test.ts
+import { BaseModel } from "./BaseModel";
+import { AfterCreate, AfterDelete, BeforeUpdate } from "./decorators";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name", "email"];
+}
+
+const hooks: [string, AuditedUser, any[]][] = [];
+const record = (hook: string, self: AuditedUser, model: AuditedUser) =>
+  hooks.push([hook, model, [self === model, model instanceof AuditedUser, model.getKey() ?? null, model.getAttribute("name")]]);
+
+class AuditedUser extends User {
+  @AfterCreate()
+  created(data: Record<string, any>, model: AuditedUser) {
+    record("afterCreate", this, model);
+  }
+
+  @BeforeUpdate()
+  updating(data: Record<string, any>, model: AuditedUser) {
+    record("beforeUpdate", this, model);
+  }
+
+  @AfterDelete()
+  deleted(model: AuditedUser) {
+    record("afterDelete", this, model);
+  }
+}
+
+describeEachConnection("BaseModel CRUD", () => {
+  beforeEach(async () => {
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+      table.string("email").nullable();
+      table.timestamps();
+    });
+  });
+
+  it("inserts, reads, updates and deletes rows", async () => {
+    const id = await new User().insert({ name: "Alice", email: "alice@example.com" });
+    expect(id).toBe(1);
+
+    const user = await new User().find<User>(id);
+    expect(user?.getAttribute("name")).toBe("Alice");
+
+    await new User().update(id, { name: "Alicia" });
+    expect((await new User().find<User>(id))?.getAttribute("name")).toBe("Alicia");
+
+    await new User().delete(id);
+    expect(await new User().find(id)).toBeNull();
+  });
+
+  it("saves hydrated models with dirty tracking", async () => {
+    const user = new User().fill({ name: "Bob" });
+    await user.save();
+    expect(user.exists).toBe(true);
+
+    user.setAttribute("email", "bob@example.com");
+    expect(user.getChanges()).toEqual({ email: "bob@example.com" });
+    await user.save();
+
+    const rows = await new User().where("email", "bob@example.com").get<User>();
+    expect(rows.map((row) => row.getAttribute("name"))).toEqual(["Bob"]);
+  });
+
+  it("hydrates rows as clean instances that can be refreshed and deleted", async () => {
+    await new User().insert({ name: "Carol", email: "carol@example.com" });
+    const user = (await new User().first<User>())!;
+
+    expect(user).toBeInstanceOf(User);
+    expect(user.exists).toBe(true);
+    expect(user.isDirty()).toBe(false);
+    expect(JSON.parse(JSON.stringify(user))).toMatchObject({ id: 1, name: "Carol", email: "carol@example.com" });
+
+    user.setAttribute("name", "Caroline");
+    expect(user.isDirty("name")).toBe(true);
+    expect(user.isDirty("email")).toBe(false);
+    expect(user.getOriginal("name")).toBe("Carol");
+
+    await new User().update(1, { email: "caroline@example.com" });
+    await user.refresh();
+    expect(user.getAttribute("email")).toBe("caroline@example.com");
+    expect(user.isDirty()).toBe(false);
+
+    await user.delete();
+    expect(user.exists).toBe(false);
+    expect(await new User().count()).toBe(0);
+    await expect(new User().refresh()).rejects.toThrow("Cannot refresh a User that has not been saved");
+  });
+
+  it("runs lifecycle hooks on a model of the written record", async () => {
+    hooks.length = 0;
+    const saved = new AuditedUser().fill({ name: "Dan" });
+    await saved.save();
+    await new AuditedUser().insert({ name: "Eve" });
+    saved.setAttribute("name", "Daniel");
+    await saved.save();
+    await new AuditedUser().update(2, { name: "Eva" });
+    await saved.delete();
+    await new AuditedUser().delete(2);
+
+    expect(hooks.map(([hook, , seen]) => [hook, ...seen])).toEqual([
+      ["afterCreate", true, true, null, "Dan"],
+      ["afterCreate", true, true, null, "Eve"],
+      ["beforeUpdate", true, true, 1, "Daniel"],
+      ["beforeUpdate", true, true, 2, "Eva"],
+      ["afterDelete", true, true, 1, "Daniel"],
+      ["afterDelete", true, true, 2, undefined],
+    ]);
+    expect(hooks.filter(([, model]) => model === saved).map(([hook]) => hook)).toEqual(["afterCreate", "beforeUpdate", "afterDelete"]);
+  });
+});
@@ -0,0 +1,119 @@
+// src/BaseModel.through.test.ts
+import { BaseModel } from "./BaseModel";
+import { HasOneThrough, ModelConfig } from "./decorators";
+import { Schema } from "./schema";
+import { describeEachConnection } from "./testing/connections";
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["user_id", "title"];
+}
+
+@ModelConfig({ softDeletes: true })
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["country_id", "name", "deleted_at"];
+}
+
+class Profile extends BaseModel {
+  public table = "profiles";
+  public allowedFields = ["user_id", "bio"];
+}
+
+class Country extends BaseModel {
+  public table = "countries";
+  public allowedFields = ["name"];
+
+  @HasOneThrough({ model: Profile, through: User })
+  declare profile: Profile | null;
+}
+
+Country.hasManyThrough({ model: Post, through: User, as: "posts" });
+
+describeEachConnection("through relations", (name) => {
+  // pg-mem doesn't support correlated subqueries; BaseModel.statements.test.ts checks the SQL on PostgreSQL
+  const itCorrelates = name === "pg-mem" ? it.skip : it;
+
+  beforeEach(async () => {
+    await Schema.create("countries", (table) => {
+      table.increments();
+      table.string("name");
+      table.timestamps();
+    });
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.integer("country_id");
+      table.string("name");
+      table.timestamps();
+      table.softDeletes();
+    });
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.integer("user_id");
+      table.string("title");
+      table.timestamps();
+    });
+    await Schema.create("profiles", (table) => {
+      table.increments();
+      table.integer("user_id");
+      table.string("bio");
+      table.timestamps();
+    });
+
+    await new Country().insertMany([{ name: "fr" }, { name: "de" }, { name: "it" }]);
+    await new User().insertMany([
+      { country_id: 1, name: "ann" },
+      { country_id: 1, name: "bob" },
+      { country_id: 2, name: "cid" },
+      { country_id: 2, name: "gone" },
+    ]);
+    await new Post().insertMany([
+      { user_id: 1, title: "p1" },
+      { user_id: 2, title: "p2" },
+      { user_id: 3, title: "p3" },
+      { user_id: 4, title: "hidden" },
+      { user_id: 1, title: "p5" },
+    ]);
+    await new Profile().insert({ user_id: 3, bio: "cid's bio" });
+    await (await new User().find<User>(4))!.softDelete();
+  });
+
+  const titles = (rows: BaseModel[]) => rows.map((row) => row.getAttribute("title"));
+
+  it("eager loads through the intermediate model, skipping its soft deleted rows", async () => {
+    const countries = await new Country().with(["posts", "profile"]).orderBy("id").get<any>();
+
+    expect(countries.map((country) => [titles(country.posts), country.profile?.getAttribute("bio") ?? null])).toEqual([
+      [["p1", "p2", "p5"], null],
+      [["p3"], "cid's bio"],
+      [[], null],
+    ]);
+    expect(countries[0].posts[0].toJSON()).not.toHaveProperty("through_key");
+  });
+
+  it("constrains eager loads and loads lazily", async () => {
+    const constrained = await new Country().with("posts", { constraints: { posts: (query) => query.where("title", "p5") } }).orderBy("id").get<any>();
+    const germany = (await new Country().find<Country>(2))!;
+    await germany.load(["posts", "profile"]);
+
+    expect(constrained.map((country) => titles(country.posts))).toEqual([["p5"], [], []]);
+    expect(titles(germany.posts)).toEqual(["p3"]);
+    expect(germany.profile?.getAttribute("bio")).toBe("cid's bio");
+  });
+
+  it("queries the relation of a single model", async () => {
+    const france = (await new Country().find<Country>(1))!;
+
+    expect(titles(await france.related("posts").orderBy("posts.id").get())).toEqual(["p1", "p2", "p5"]);
+    expect(await france.related("posts").count()).toBe(3);
+  });
+
+  itCorrelates("filters and counts through the intermediate model", async () => {
+    const names = (rows: BaseModel[]) => rows.map((row) => row.getAttribute("name"));
+
+    expect(names(await new Country().has("posts").orderBy("id").get())).toEqual(["fr", "de"]);
+    expect(names(await new Country().whereHas("posts", (query) => query.where("posts.title", "p3")).get())).toEqual(["de"]);
+    expect(names(await new Country().doesntHave("posts").get())).toEqual(["it"]);
+    expect((await new Country().withCount("posts").orderBy("id").get()).map((row) => row.getAttribute("posts_count"))).toEqual([3, 1, 0]);
+  });
+});
@@ -1,35 +1,134 @@
 import {
+  BulkWriteOptions,
   DatabaseConfig,
   DatabaseConnection,
   EagerLoadConstraint,
   ModelConfig,
+  GlobalScope,
+  LocalScope,
+  ModelHook,
   OrderByCondition,
+  OrmConfig,
+  PivotIds,
   Relation,
+  RelationKeys,
   RelationType,
+  SyncResult,
+  UpdateManyOptions,
   WhereCondition,
   WhereInCondition,
   WhereValue,
   WithOptions,
 } from "./types/interfaces";
 import { DatabaseFactory } from "./database/factory";
+import { Dialect } from "./database/dialects/Dialect";
+import { Transaction } from "./database/Transaction";
+import { streamRows } from "./database/stream";
+import { resolveCasts } from "./casts/Cast";
+import { JoinClause, JoinType } from "./query/JoinClause";
+import type { CursorPaginatedResult } from "./types";
+
+/**
+ * Name of the built-in global scope hiding soft-deleted rows
+ */
+export const SOFT_DELETES_SCOPE = "softDeletes";
+
+/**
+ * Marks the prototype methods that call a local scope
+ */
+export const SCOPE_METHOD = Symbol("scopeMethod");
+
+/**
+ * Model classes whose local scopes are installed as methods
+ */
+const bootedScopes = new WeakSet<typeof BaseModel>();
+
+/**
+ * Morph type strings registered with morphMap()
+ */
+const morphTypes: Record<string, typeof BaseModel> = {};
+
+/**
+ * Models with polymorphic relations, by class name, for morph types missing from the morph map
+ */
+const morphedModels = new Map<string, typeof BaseModel>();
 
 export class BaseModel {
-  protected static dbConfig: DatabaseConfig;
-  protected static connection: DatabaseConnection;
+  protected static dbConfig: Record<string, DatabaseConfig> = {};
+  protected static connections: Record<string, DatabaseConnection> = {};
+  protected static defaultConnectionName: string = "default";
+  protected boundConnection?: DatabaseConnection;
+  protected connectionName?: string;
   public table: string = "";
   public primaryKey: string = "id";
   public allowedFields: string[] = [];
   protected whereConditions: WhereCondition[] = [];
-  protected whereOrConditions: WhereCondition[] = [];
-  protected whereConditionsRaw: { sql: string; params: string[] }[] = [];
   protected orderByConditions: OrderByCondition[] = [];
   protected _limit: number | null = null;
   protected offset: number | null = null;
   protected selectSumFields: Record<string, string> = {};
+  protected selectColumns: { sql: string; params: any[] }[] = [];
+  protected isDistinct: boolean = false;
+  protected groupByColumns: string[] = [];
+  protected havingConditions: WhereCondition[] = [];
+  protected joins: JoinClause[] = [];
+  /**
+   * Subquery columns added by withCount(), withSum() and withExists()
+   */
+  protected relationAggregates: { sql: string; params: any[] }[] = [];
   protected whereInConditions: WhereInCondition[] = [];
-  protected whereGroupLevel: number = 0;
-  protected whereGroupConditions: WhereCondition[] = [];
+  /**
+   * Conditions of the enclosing levels while a group is open
+   */
+  protected whereGroupStack: { conditions: WhereCondition[]; conjunction: "AND" | "OR" }[] = [];
+  /**
+   * Pivot table a belongsToMany query reads through, with the pivot columns it selects
+   */
+  protected pivotContext: {
+    table: string;
+    foreignKey: string;
+    relatedKey: string;
+    morphType?: { column: string; value: string };
+    columns: string[];
+  } | null = null;
+  /**
+   * Intermediate table a hasManyThrough/hasOneThrough query joins. Its `firstKey` column
+   * is selected as `through_key` to match the records with their parents.
+   */
+  protected throughContext: { model: typeof BaseModel; table: string; firstKey: string; secondKey: string; secondLocalKey: string } | null = null;
+  /**
+   * Record and relation a query was started from with related()
+   */
+  protected relationParent: { model: BaseModel; name: string; relation: Relation } | null = null;
   public static relations: Record<string, Relation> = {};
+  /**
+   * Methods registered with the hook decorators, run after the overridable hook methods
+   */
+  public static hooks: Partial<Record<ModelHook, string[]>> = {};
+  /**
+   * Constraints applied to every query of the model, see addGlobalScope()
+   */
+  public static globalScopes: Record<string, GlobalScope> = {};
+  /**
+   * Reusable constraints callable as builder methods, see scope()
+   */
+  public static scopes: Record<string, LocalScope> = {};
+  protected removedScopes: Set<string> = new Set();
+  protected globalScopesDisabled: boolean = false;
+  /**
+   * Whether the instance is a record stored in the database
+   */
+  public exists: boolean = false;
+  /**
+   * Pivot row of a record loaded through a belongsToMany relation
+   */
+  public pivot?: Record<string, any>;
+  protected attributes: Record<string, any> = {};
+  protected original: Record<string, any> = {};
+  /**
+   * Set while save() or delete() writes this record, so its lifecycle hooks run on it
+   */
+  private writingSelf: boolean = false;
   protected _eagerLoad: {
     relations: string[];
     constraints: EagerLoadConstraint;
@@ -44,46 +143,185 @@ export class BaseModel {
     updatedAt: "updated_at",
     deletedAt: "deleted_at",
   };
+
+  /**
+   * @param connection Connection (e.g. a transaction) this instance runs its queries on
+   */
+  constructor(connection?: DatabaseConnection) {
+    (this.constructor as typeof BaseModel).bootScopes();
+    if (connection) {
+      this.boundConnection = connection;
+    }
+  }
+
+  /**
+   * Install the local scopes of the model as chainable methods
+   */
+  protected static bootScopes(): void {
+    if (bootedScopes.has(this)) return;
+
+    for (const name of Object.keys(this.scopes)) {
+      const existing = this.prototype[name];
+      if (existing !== undefined) {
+        if (existing[SCOPE_METHOD]) continue;
+        throw new Error(`Scope ${name} conflicts with an existing member of ${this.name}`);
+      }
+
+      // Looks the scope up on call, so subclasses can override inherited scopes
+      const method = function (this: BaseModel, ...args: any[]) {
+        return this.scope(name, ...args);
+      };
+      Object.defineProperty(method, SCOPE_METHOD, { value: true });
+      Object.defineProperty(this.prototype, name, { value: method, writable: true, configurable: true });
+    }
+    bootedScopes.add(this);
+  }
+
+  /**
+   * Initialize database connections. A single config becomes the "default" connection.
+   */
+  static async initialize(config: OrmConfig): Promise<void> {
+    const configs = "connections" in config ? config.connections : { default: config };
+    const names = Object.keys(configs);
+    if (names.length === 0) {
+      throw new Error("No database connections configured");
+    }
+
+    BaseModel.dbConfig = {};
+    BaseModel.connections = {};
+    BaseModel.defaultConnectionName = ("connections" in config && config.default) || names[0];
+
+    const logging = "connections" in config ? config.logging : undefined;
+    for (const name of names) {
+      await BaseModel.addConnection(name, { logging, ...configs[name] });
+    }
+  }
+
+  /**
+   * Open an additional named connection
+   */
+  static async addConnection(name: string, config: DatabaseConfig): Promise<void> {
+    BaseModel.dbConfig[name] = config;
+    BaseModel.connections[name] = await DatabaseFactory.createConnection(config, name);
+  }
+
+  /**
+   * Get a connection by name (default: the default connection)
+   */
+  static resolveConnection(name: string = BaseModel.defaultConnectionName): DatabaseConnection {
+    const connection = BaseModel.connections[name];
+    if (!connection) {
+      if (Object.keys(BaseModel.connections).length === 0) {
+        throw new Error("Database connection not initialized. Call initORM() first");
+      }
+      throw new Error(`Database connection ${name} is not configured`);
+    }
+    return connection;
+  }
+
+  /**
+   * Get the connection models use by default
+   */
+  static getDefaultConnection(): DatabaseConnection {
+    return BaseModel.resolveConnection();
+  }
+
+  /**
+   * Release every open connection
+   */
+  static async closeConnections(): Promise<void> {
+    const connections = Object.values(BaseModel.connections);
+    BaseModel.connections = {};
+    BaseModel.dbConfig = {};
+    await Promise.all(connections.map((connection) => connection.release()));
+  }
+
+  /**
+   * Name of the connection the model uses
+   */
+  static getConnectionName(): string {
+    return this.config.connection || BaseModel.defaultConnectionName;
+  }
+
+  /**
+   * Run this query on another named connection
+   *
+   * @example
+   * ```typescript
+   * const events = await new Event().on('analytics').where('type', 'click').get();
+   * ```
+   */
+  on(connection: string): this {
+    this.connectionName = connection;
+    return this;
+  }
+
   /**
-   * Initialize database connection
+   * Name of the connection this instance runs its queries on
    */
-  static async initialize(config: DatabaseConfig): Promise<void> {
-    this.dbConfig = config;
-    this.connection = await DatabaseFactory.createConnection(config);
+  protected getConnectionName(): string {
+    return this.connectionName || (this.constructor as typeof BaseModel).getConnectionName();
   }
 
   /**
-   * Get database connection
+   * Get database connection: the bound one, else the ambient transaction, else the model's connection
    */
   protected getConnection(): DatabaseConnection {
-    return (this.constructor as typeof BaseModel).connection;
+    if (this.boundConnection) return this.boundConnection;
+
+    const connection = BaseModel.resolveConnection(this.getConnectionName());
+    return Transaction.current(connection) || connection;
+  }
+
+  /**
+   * Connection for plain reads: a replica when configured, unless a transaction is in use
+   */
+  protected getReadConnection(): DatabaseConnection {
+    const connection = this.getConnection();
+    return connection.readConnection ? connection.readConnection() : connection;
+  }
+
+  /**
+   * Create an instance of another model. It keeps this instance's transaction
+   * only when both run on the same connection; related models otherwise use their own.
+   */
+  protected newModelInstance<M extends BaseModel = BaseModel>(model: typeof BaseModel): M {
+    const instance = new model() as M;
+    if (model === this.constructor) {
+      instance.connectionName = this.connectionName;
+    }
+    if (this.boundConnection && instance.getConnectionName() === this.getConnectionName()) {
+      instance.boundConnection = this.boundConnection;
+    }
+    return instance;
+  }
+
+  /**
+   * Get the SQL dialect of the model's connection
+   */
+  protected getDialect(): Dialect {
+    return this.getConnection().dialect;
+  }
+
+  /**
+   * Quote a table or column reference for the current dialect
+   */
+  protected wrap(value: string): string {
+    return this.getDialect().wrap(value);
   }
 
   /**
    * Database-specific query formatting
    */
   protected formatQuery(sql: string, params: any[]): string {
-    if (BaseModel.dbConfig.client === "mysql") {
-      // MySQL uses ? placeholders
-      return sql;
-    } else {
-      // SQLite uses ? placeholders too, but we might need different handling for other cases
-      return sql;
-    }
+    return this.getDialect().formatQuery(sql);
   }
 
   /**
    * Database-specific value formatting
    */
   protected formatValue(value: any): any {
-    if (value instanceof Date) {
-      if (BaseModel.dbConfig.client === "mysql") {
-        return value.toISOString().slice(0, 19).replace("T", " ");
-      } else {
-        return value.toISOString();
-      }
-    }
-    return value;
+    return this.getDialect().formatValue(value);
   }
 
   /**
@@ -91,7 +329,16 @@ export class BaseModel {
    */
   protected async executeQuery<T = any>(sql: string, params: any[] = []): Promise<T[]> {
     const formattedParams = params.map((p) => this.formatValue(p));
-    const [rows] = await this.getConnection().query<T>(sql, formattedParams);
+    const [rows] = await this.getConnection().query<T>(this.formatQuery(sql, formattedParams), formattedParams);
+    return rows;
+  }
+
+  /**
+   * Run a SELECT on the read connection
+   */
+  protected async executeReadQuery<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const formattedParams = params.map((p) => this.formatValue(p));
+    const [rows] = await this.getReadConnection().query<T>(this.formatQuery(sql, formattedParams), formattedParams);
     return rows;
   }
 
@@ -99,63 +346,187 @@ export class BaseModel {
    * Modified execute method for INSERT/UPDATE/DELETE
    */
   protected async executeUpdate(sql: string, params: any[] = []): Promise<number> {
-    const formattedParams = params.map((p) => this.formatValue(p));
-    const result = await this.getConnection().execute(sql, formattedParams);
+    const result = await this.executeStatement(sql, params);
 
-    if (BaseModel.dbConfig.client === "mysql") {
-      return result.insertId || result.affectedRows;
-    } else {
-      // SQLite returns lastID for inserts and changes for updates/deletes
-      return result.lastID || result.changes;
-    }
+    // Generated id for inserts, affected rows for updates/deletes
+    const dialect = this.getDialect();
+    return dialect.getInsertId(result, this.primaryKey) || dialect.getAffectedRows(result);
+  }
+
+  /**
+   * Run a write statement and return the raw driver result
+   */
+  protected async executeStatement(sql: string, params: any[] = []): Promise<any> {
+    const formattedParams = params.map((p) => this.formatValue(p));
+    return this.getConnection().execute(this.formatQuery(sql, formattedParams), formattedParams);
   }
 
   // Update all methods to use executeQuery/executeUpdate instead of direct pdo calls
   async find<T = any>(id: number | string, key: string = this.primaryKey): Promise<T | null> {
-    const whereParts = [` ${key} = ?`];
-    const whereValues = [id];
-    const queryBuilderWhere = this.buildWhereClauses();
+    const whereValues: any[] = [];
+    const columns = this.buildColumns(whereValues);
+    const from = this.buildFrom(whereValues);
+    const whereParts = [`${this.wrap(this.qualifyColumn(key))} = ?`];
+    whereValues.push(id);
+    const queryBuilderWhere = this.buildScopedWhereClauses();
     if (queryBuilderWhere.sql) {
       whereParts.push(queryBuilderWhere.sql);
       whereValues.push(...queryBuilderWhere.params);
     }
     const whereClause = `WHERE ${whereParts.join(" AND ")}`;
-    const sql = `SELECT * FROM ${this.table} ${whereClause} LIMIT 1`;
-    const rows = await this.executeQuery<T>(sql, [id]);
-    const result = await this.processEagerLoad(rows);
-    return result[0] || null;
+    const sql = `SELECT ${columns} FROM ${from} ${whereClause} ${this.getLimitClause(1)}`;
+    const rows = await this.executeReadQuery(sql, whereValues);
+    const result = await this.processEagerLoad(this.hydrate(rows));
+    return (result[0] as T) || null;
   }
 
   async insert(data: Record<string, any>): Promise<number> {
     await this.validate(data, false);
-    await this.beforeCreate(data);
+    const record = this.hookRecord(data, false);
+    await this.runHook("beforeCreate", record, data);
     await this.setTimestamps(data);
     const filteredData = this.filterAllowedFields(data);
-    const columns = Object.keys(filteredData).join(", ");
-    const placeholders = Object.keys(filteredData)
-      .map(() => "?")
-      .join(", ");
-    const values = Object.values(filteredData);
+    const values = Object.values(this.castAttributes(filteredData, "set"));
+
+    const sql = this.getDialect().compileInsert(this.table, Object.keys(filteredData), 1, this.primaryKey);
+    const result = await this.executeUpdate(sql, values);
+    await this.runHook("afterCreate", record, filteredData);
+    return result;
+  }
+
+  /**
+   * Insert many rows with multi-row INSERT statements. Returns the number of rows inserted.
+   *
+   * @example
+   * ```typescript
+   * await new User().insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+   * await new User().insertMany(rows, { hooks: true, batchSize: 500 });
+   * ```
+   */
+  async insertMany(rows: Record<string, any>[], options: BulkWriteOptions = {}): Promise<number> {
+    const prepared = await this.prepareBulkRows(rows, options);
+    const dialect = this.getDialect();
+    const inserted = await this.executeBulk(prepared, options, (columns, count) => dialect.compileInsert(this.table, columns, count));
+
+    if (options.hooks) {
+      for (const row of prepared) {
+        await this.runHook("afterCreate", this.hookRecord(row, false), row);
+      }
+    }
+    return inserted;
+  }
+
+  /**
+   * Insert rows, updating the existing rows they conflict with on `uniqueBy`. Without
+   * `updateColumns` every inserted column except the unique ones and createdAt is updated.
+   * The `uniqueBy` columns are written even when they are not in allowedFields.
+   * Returns the affected rows as the driver reports them (MySQL counts an updated row twice).
+   *
+   * No lifecycle hooks run: the drivers don't tell the inserted rows from the updated
+   * ones, so neither the create nor the update hooks would be right for every row.
+   *
+   * @example
+   * ```typescript
+   * await new Flight().upsert(
+   *   [{ departure: 'Oakland', destination: 'San Diego', price: 99 }],
+   *   ['departure', 'destination'],
+   *   ['price']
+   * );
+   * ```
+   */
+  async upsert(
+    rows: Record<string, any>[],
+    uniqueBy: string | string[],
+    updateColumns?: string[],
+    options: Omit<BulkWriteOptions, "hooks"> = {}
+  ): Promise<number> {
+    const unique = Array.isArray(uniqueBy) ? uniqueBy : [uniqueBy];
+    const { timestamps, createdAt, updatedAt } = (this.constructor as typeof BaseModel).config;
+    const prepared = await this.prepareBulkRows(rows, { ...options, hooks: false }, unique);
+    const dialect = this.getDialect();
+
+    const affected = await this.executeBulk(prepared, options, (columns, count) => {
+      const update = updateColumns
+        ? [...updateColumns]
+        : columns.filter((column) => !unique.includes(column) && column !== createdAt && column !== this.primaryKey);
+      // Explicit update columns still refresh the update timestamp
+      if (updateColumns && timestamps && updatedAt && columns.includes(updatedAt) && !update.includes(updatedAt)) {
+        update.push(updatedAt);
+      }
+      return dialect.compileUpsert(this.table, columns, count, unique, update);
+    });
+    return affected;
+  }
+
+  /**
+   * Validate, timestamp and filter rows for a bulk write. The `keep` columns
+   * survive the allowedFields filter.
+   */
+  protected async prepareBulkRows(rows: Record<string, any>[], options: BulkWriteOptions, keep: string[] = []): Promise<Record<string, any>[]> {
+    const prepared: Record<string, any>[] = [];
+    for (const data of rows) {
+      await this.validate(data, false);
+      if (options.hooks) {
+        await this.runHook("beforeCreate", this.hookRecord(data, false), data);
+      }
+      await this.setTimestamps(data);
+
+      const row = this.filterAllowedFields(data);
+      for (const column of keep) {
+        if (column in data) row[column] = data[column];
+      }
+      prepared.push(row);
+    }
+    return prepared;
+  }
+
+  /**
+   * Run a bulk statement per batch of rows with the same columns, keeping each
+   * under the dialect's parameter limit. Returns the total affected rows.
+   */
+  protected async executeBulk(
+    rows: Record<string, any>[],
+    options: BulkWriteOptions,
+    compile: (columns: string[], rowCount: number) => string
+  ): Promise<number> {
+    // Rows missing a column keep the column default, so they go into separate statements
+    const groups = new Map<string, { columns: string[]; rows: Record<string, any>[] }>();
+    for (const row of rows) {
+      const columns = Object.keys(row).sort();
+      if (columns.length === 0) {
+        throw new Error(`No insertable fields for ${this.table}. Check allowedFields`);
+      }
+      const key = JSON.stringify(columns);
+      if (!groups.has(key)) groups.set(key, { columns, rows: [] });
+      groups.get(key)!.rows.push(row);
+    }
 
-    const sql = `INSERT INTO ${this.table} (${columns}) VALUES (${placeholders})`;
-    await this.afterCreate(filteredData);
-    return await this.executeUpdate(sql, values);
+    const dialect = this.getDialect();
+    let affected = 0;
+    for (const { columns, rows: group } of groups.values()) {
+      const size = Math.max(1, Math.min(options.batchSize || Infinity, Math.floor(dialect.maxParameters / columns.length)));
+      for (let i = 0; i < group.length; i += size) {
+        const batch = group.slice(i, i + size);
+        const params = batch.flatMap((row) => {
+          const values = this.castAttributes(row, "set");
+          return columns.map((column) => values[column]);
+        });
+        affected += dialect.getAffectedRows(await this.executeStatement(compile(columns, batch.length), params));
+      }
+    }
+    return affected;
   }
   // Add these methods to BaseModel
   protected getPlaceholder(position: number): string {
-    return BaseModel.dbConfig.client === "mysql" ? "?" : "?";
+    return this.getDialect().placeholder(position);
   }
 
-  protected getLimitClause(limit?: number, offset?: number): string {
-    if (BaseModel.dbConfig.client === "mysql") {
-      return limit !== undefined ? `LIMIT ${limit}${offset ? ` OFFSET ${offset}` : ""}` : "";
-    } else {
-      return limit !== undefined ? `LIMIT ${limit}${offset ? ` OFFSET ${offset}` : ""}` : "";
-    }
+  protected getLimitClause(limit?: number | null, offset?: number | null): string {
+    return this.getDialect().compileLimit(limit, offset);
   }
 
   protected getAutoIncrementKeyword(): string {
-    return BaseModel.dbConfig.client === "mysql" ? "AUTO_INCREMENT" : "AUTOINCREMENT";
+    return this.getDialect().autoIncrementKeyword;
   }
   /**
    * Add ORDER BY clause
@@ -215,31 +586,11 @@ export class BaseModel {
         throw new Error(`Relation ${immediateRelation} not defined on ${this.constructor.name}`);
       }
 
-      // Process immediate relation
-      const relationModel = new relation.model();
-      const primaryKey = this.primaryKey;
-      // Apply constraints if any
-      if (eagerLoad.constraints[fullPath]) {
-        eagerLoad.constraints[fullPath](relationModel);
-      }
-
-      // Load relation based on type
-      switch (relation.type) {
-        case RelationType.HAS_ONE:
-          await this.loadHasOneRelation(parents, immediateRelation, relation, relationModel, primaryKey);
-          break;
-        case RelationType.HAS_MANY:
-          await this.loadHasManyRelation(parents, immediateRelation, relation, relationModel, primaryKey);
-          break;
-
-        case RelationType.BELONGS_TO:
-          await this.loadBelongsToRelation(parents, immediateRelation, relation, relationModel);
-          break;
-
-        case RelationType.BELONGS_TO_MANY:
-          await this.loadBelongsToManyRelation(parents, immediateRelation, relation, relationModel, primaryKey);
-          break;
-        // ... other relation types
+      // morphTo relations query each parent type separately, with the same constraints
+      if (relation.type === RelationType.MORPH_TO) {
+        await this.loadMorphToRelation(parents, immediateRelation, relation, eagerLoad.constraints[fullPath]);
+      } else {
+        await this.loadRelationOfType(parents, immediateRelation, relation, eagerLoad.constraints[fullPath]);
       }
 
       // Process nested relations
@@ -256,9 +607,17 @@ export class BaseModel {
             return acc;
           }, []);
 
-        if (nestedParents.length > 0) {
-          await this.loadRelations(
-            nestedParents,
+        // Each model class loads the nested relations from its own definitions
+        const parentsByModel = new Map<typeof BaseModel, any[]>();
+        for (const parent of nestedParents) {
+          const model = parent.constructor as typeof BaseModel;
+          if (!parentsByModel.has(model)) parentsByModel.set(model, []);
+          parentsByModel.get(model)!.push(parent);
+        }
+
+        for (const [model, group] of parentsByModel) {
+          await this.newModelInstance(model).loadRelations(
+            group,
             {
               relations: nestedRelations,
               constraints: eagerLoad.constraints,
@@ -272,6 +631,136 @@ export class BaseModel {
     }
   }
 
+  /**
+   * Eager load a relation with a single related model
+   */
+  protected async loadRelationOfType(
+    parents: any[],
+    relationName: string,
+    relation: Relation,
+    constraint?: (query: BaseModel) => void
+  ): Promise<void> {
+    const relationModel = this.newRelationQuery(relation);
+    const primaryKey = this.primaryKey;
+    // Apply constraints if any
+    if (constraint) {
+      constraint(relationModel);
+    }
+
+    // Load relation based on type
+    switch (relation.type) {
+      case RelationType.HAS_ONE:
+        await this.loadHasOneRelation(parents, relationName, relation, relationModel, primaryKey);
+        break;
+      case RelationType.HAS_MANY:
+        await this.loadHasManyRelation(parents, relationName, relation, relationModel, primaryKey);
+        break;
+
+      case RelationType.BELONGS_TO:
+        await this.loadBelongsToRelation(parents, relationName, relation, relationModel);
+        break;
+
+      case RelationType.BELONGS_TO_MANY:
+      case RelationType.MORPH_TO_MANY:
+        await this.loadBelongsToManyRelation(parents, relationName, relation, relationModel, primaryKey);
+        break;
+
+      case RelationType.HAS_MANY_THROUGH:
+      case RelationType.HAS_ONE_THROUGH:
+        await this.loadThroughRelation(parents, relationName, relation, relationModel);
+        break;
+
+      case RelationType.MORPH_ONE:
+      case RelationType.MORPH_MANY: {
+        // Related rows of this parent type, matched on the {name}_id column
+        const { morphType, foreignKey } = this.getMorphColumns(relation);
+        relationModel.where(morphType, (this.constructor as typeof BaseModel).getMorphClass());
+        if (relation.type === RelationType.MORPH_ONE) {
+          await this.loadHasOneRelation(parents, relationName, { ...relation, foreignKey }, relationModel, primaryKey);
+        } else {
+          await this.loadHasManyRelation(parents, relationName, { ...relation, foreignKey }, relationModel, primaryKey);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Eager load a hasManyThrough or hasOneThrough relation with one query joining the intermediate table
+   */
+  protected async loadThroughRelation<T>(results: T[], relationName: string, relation: Relation, relationModel: BaseModel): Promise<void> {
+    const { table, firstKey, localKey } = this.getThroughKeys(relation);
+
+    // Get all parent keys
+    const parentKeys = [...new Set(results.map((result: any) => result[localKey]).filter((key) => key !== undefined && key !== null))];
+
+    if (parentKeys.length === 0) return;
+
+    // Fetch all related models at once, with the intermediate key of each row
+    relationModel.whereIn(`${table}.${firstKey}`, parentKeys);
+    const rows = await relationModel.executeWhereQuery();
+    const relatedModels = await relationModel.processEagerLoad(relationModel.hydrate(rows));
+
+    // Group related models by parent key
+    const relatedMap = new Map();
+    relatedModels.forEach((model, index) => {
+      const parentKey = rows[index].through_key;
+      if (!relatedMap.has(parentKey)) {
+        relatedMap.set(parentKey, []);
+      }
+      relatedMap.get(parentKey).push(model);
+    });
+
+    // Assign related models to parents
+    const single = relation.type === RelationType.HAS_ONE_THROUGH;
+    for (const result of results as any[]) {
+      const models = relatedMap.get(result[localKey]) || [];
+      result[relationName] = single ? models[0] || null : models;
+    }
+  }
+
+  /**
+   * Eager load a morphTo relation with one query per parent type
+   */
+  protected async loadMorphToRelation<T>(
+    results: T[],
+    relationName: string,
+    relation: Relation,
+    constraint?: (query: BaseModel) => void
+  ): Promise<void> {
+    const { morphType, foreignKey } = this.getMorphColumns(relation);
+
+    // Group the related keys by type
+    const keysByType = new Map<string, any[]>();
+    for (const result of results as any[]) {
+      const type = result[morphType];
+      const key = result[foreignKey];
+      if (type === undefined || type === null || key === undefined || key === null) continue;
+      if (!keysByType.has(type)) keysByType.set(type, []);
+      keysByType.get(type)!.push(key);
+    }
+
+    // Fetch the related models of each type at once
+    const relatedMap = new Map();
+    for (const [type, keys] of keysByType) {
+      const relationModel = this.newModelInstance(BaseModel.getMorphedModel(type));
+      if (constraint) {
+        constraint(relationModel);
+      }
+
+      const ownerKey = relation.localKey || relationModel.primaryKey;
+      const relatedModels = await relationModel.whereIn(ownerKey, [...new Set(keys)]).get();
+      for (const model of relatedModels) {
+        relatedMap.set(`${type}|${model[ownerKey]}`, model);
+      }
+    }
+
+    // Assign related models to parents
+    for (const result of results as any[]) {
+      result[relationName] = relatedMap.get(`${result[morphType]}|${result[foreignKey]}`) || null;
+    }
+  }
+
   protected async loadHasOneRelation<T>(
     results: T[],
     relationName: string,
@@ -336,7 +825,7 @@ export class BaseModel {
   }
 
   protected async loadBelongsToRelation<T>(results: T[], relationName: string, relation: Relation, relationModel: BaseModel): Promise<void> {
-    const foreignKey = relation.foreignKey || `${relation.model.name.toLowerCase()}_id`;
+    const foreignKey = relation.foreignKey || `${this.getRelatedModel(relation).name.toLowerCase()}_id`;
     const ownerKey = relation.localKey || relationModel.primaryKey;
 
     // Get all foreign keys
@@ -368,61 +857,35 @@ export class BaseModel {
     relationModel: BaseModel,
     primaryKey: string
   ): Promise<void> {
-    const pivotTable = relation.pivotTable || `${this.constructor.name.toLowerCase()}_${relation.model.name.toLowerCase()}`;
-    const currentForeignKey = relation.foreignKey || `${this.constructor.name.toLowerCase()}_id`;
-    const relatedKey = relation.relatedKey || `${relation.model.name.toLowerCase()}_id`;
+    const { table, foreignKey } = this.getPivotKeys(relation);
 
     // Get all parent IDs
     const parentIds = results.map((result: any) => result[primaryKey]);
 
     if (parentIds.length === 0) return;
 
-    // Fetch all pivot records at once
-    const pivotQuery = `SELECT ${currentForeignKey}, ${relatedKey} FROM ${pivotTable} WHERE ${currentForeignKey} IN (${parentIds
-      .map(() => "?")
-      .join(",")})`;
-    const pivotRows = await this.executeQuery(pivotQuery, parentIds);
-
-    // Group related IDs by parent ID
-    const relatedIdsMap = new Map();
-    const allRelatedIds: (number | string)[] = [];
-
-    for (const row of pivotRows as any[]) {
-      if (!relatedIdsMap.has(row[currentForeignKey])) {
-        relatedIdsMap.set(row[currentForeignKey], []);
-      }
-      relatedIdsMap.get(row[currentForeignKey]).push(row[relatedKey]);
-      allRelatedIds.push(row[relatedKey]);
-    }
-
-    if (allRelatedIds.length === 0) {
-      // No relations found, set empty arrays for all parents
-      for (const result of results as any[]) {
-        result[relationName] = [];
-      }
-      return;
-    }
-
-    // Fetch all related models at once
-    const uniqueRelatedIds = [...new Set(allRelatedIds)];
-    const relatedModels = await relationModel.whereIn(relationModel.primaryKey, uniqueRelatedIds).get();
+    // Fetch all related models at once, joined with their pivot rows
+    const relatedModels = await relationModel.whereIn(`${table}.${foreignKey}`, parentIds).get();
 
-    // Map related models by their primary key
-    const relatedModelsMap = new Map();
+    // Group related models by parent ID
+    const relatedMap = new Map();
     for (const model of relatedModels) {
-      relatedModelsMap.set(model[relationModel.primaryKey], model);
+      const parentId = model.pivot[foreignKey];
+      if (!relatedMap.has(parentId)) {
+        relatedMap.set(parentId, []);
+      }
+      relatedMap.get(parentId).push(model);
     }
 
     // Assign related models to parents
     for (const result of results as any[]) {
-      const relatedIds = relatedIdsMap.get(result[primaryKey]) || [];
-      result[relationName] = relatedIds.map((id: number | string) => relatedModelsMap.get(id)).filter((model: any) => model !== undefined);
+      result[relationName] = relatedMap.get(result[primaryKey]) || [];
     }
   }
 
   // Also need to modify the get() and first() methods to process eager loading:
   async get<T = any>(options?: { chunkSize?: number }): Promise<T[]> {
-    const results = await this.executeWhereQuery<T>();
+    const results = this.hydrate(await this.executeWhereQuery()) as T[];
 
     if (options?.chunkSize && results.length > options.chunkSize) {
       const chunks = [];
@@ -438,60 +901,152 @@ export class BaseModel {
 
   async first<T = any>(): Promise<T | null> {
     this.limit(1);
-    const results = await this.executeWhereQuery<T>();
+    const results = this.hydrate(await this.executeWhereQuery());
     if (results.length === 0) return null;
 
     const processed = await this.processEagerLoad([results[0]]);
-    return processed[0];
+    return processed[0] as T;
   }
+
   /**
-   * Count all results matching the current query conditions
+   * Iterate over the results one model at a time without loading them all into
+   * memory. Rows are fetched as the loop consumes them; relations are not eager loaded.
+   *
+   * @example
+   * ```typescript
+   * for await (const user of new User().where('active', 1).cursor()) {
+   *   await exporter.write(user.toJSON());
+   * }
+   * ```
    */
-  async countAllResults(): Promise<number> {
-    let sql = `SELECT COUNT(*) AS count FROM ${this.table}`;
-    const values: any[] = [];
-
-    const whereClauses = this.buildWhereClauses();
+  async *cursor<T = any>(): AsyncGenerator<T> {
+    const [sql, values] = this.buildSelect();
+    this.resetQuery();
 
-    if (whereClauses.sql) {
-      sql += ` WHERE ${whereClauses.sql}`;
-      values.push(...whereClauses.params);
+    const params = values.map((value) => this.formatValue(value));
+    for await (const row of streamRows(this.getReadConnection(), this.formatQuery(sql, params), params)) {
+      yield this.hydrate([row])[0] as T;
     }
-
-    const rows = await this.executeQuery(sql, values);
-    return rows[0]?.count ? parseInt(rows[0].count) : 0;
   }
 
   /**
-   * Start a new WHERE condition group
+   * Alias of cursor()
    */
-  groupStart(): this {
-    this.whereGroupLevel++;
-    return this;
+  stream<T = any>(): AsyncGenerator<T> {
+    return this.cursor<T>();
   }
 
   /**
-   * End a WHERE condition group
+   * Process the results in chunks paged by primary key, with relations eager
+   * loaded per chunk. Return false from the callback to stop.
+   *
+   * @example
+   * ```typescript
+   * await new User().with('posts').chunkById(1000, async (users) => {
+   *   await index(users);
+   * });
+   * ```
    */
-  groupEnd(): this {
-    if (this.whereGroupLevel > 0) {
-      this.whereGroupLevel--;
+  async chunkById<T = any>(size: number, callback: (rows: T[], page: number) => Promise<void | false> | void | false): Promise<boolean> {
+    const key = this.qualifyColumn(this.primaryKey);
+    const base = this.cloneQuery();
+    base.orderByConditions = [];
+    this.resetQuery();
+
+    let lastKey: any;
+    for (let page = 1; ; page++) {
+      const query = base.cloneQuery();
+      if (lastKey !== undefined) {
+        query.wrapWhereConditions().where(key, ">", lastKey);
+      }
+      const rows = await query.orderBy(key).limit(size).get<T>();
+      if (rows.length === 0) return true;
+
+      if ((await callback(rows, page)) === false) return false;
+      if (rows.length < size) return true;
+
+      const last: any = rows[rows.length - 1];
+      lastKey = last instanceof BaseModel ? last.getAttribute(this.primaryKey) : last[this.primaryKey];
     }
-    return this;
   }
 
   /**
-   * WHERE clause (AND condition) with group support
+   * A copy of this query builder, for running the same query more than once
    */
-  where(field: string, ...args: any[]): this {
-    if (args.length === 1) {
-      // where("col", value)
-      const value = args[0];
-      return this.addWhereCondition(field, "=", value);
-    } else if (args.length === 2) {
-      // where("col", operator, value)
-      const operator = args[0];
-      const value = args[1];
+  protected cloneQuery(): this {
+    const query = this.newQuery();
+    query.whereConditions = [...this.whereConditions];
+    query.whereInConditions = [...this.whereInConditions];
+    query.orderByConditions = [...this.orderByConditions];
+    query._limit = this._limit;
+    query.offset = this.offset;
+    query.selectSumFields = { ...this.selectSumFields };
+    query.selectColumns = [...this.selectColumns];
+    query.isDistinct = this.isDistinct;
+    query.groupByColumns = [...this.groupByColumns];
+    query.havingConditions = [...this.havingConditions];
+    query.joins = [...this.joins];
+    query.relationAggregates = [...this.relationAggregates];
+    query.removedScopes = new Set(this.removedScopes);
+    query.globalScopesDisabled = this.globalScopesDisabled;
+    query._eagerLoad = this._eagerLoad;
+    query.pivotContext = this.pivotContext && { ...this.pivotContext, columns: [...this.pivotContext.columns] };
+    query.throughContext = this.throughContext;
+    query.relationParent = this.relationParent;
+    return query;
+  }
+  /**
+   * Count all results matching the current query conditions
+   */
+  async countAllResults(): Promise<number> {
+    const [sql, values] = this.buildAggregate("COUNT", "*");
+    const rows = await this.executeReadQuery(sql, values);
+    return rows[0]?.aggregate ? parseInt(rows[0].aggregate) : 0;
+  }
+
+  /**
+   * Start a new WHERE condition group
+   */
+  groupStart(conjunction: "AND" | "OR" = "AND"): this {
+    this.whereGroupStack.push({ conditions: this.whereConditions, conjunction });
+    this.whereConditions = [];
+    return this;
+  }
+
+  /**
+   * Start a new WHERE condition group joined with OR
+   */
+  orGroupStart(): this {
+    return this.groupStart("OR");
+  }
+
+  /**
+   * End a WHERE condition group
+   */
+  groupEnd(): this {
+    const outer = this.whereGroupStack.pop();
+    if (!outer) return this;
+
+    const conditions = this.whereConditions;
+    this.whereConditions = outer.conditions;
+    if (conditions.length > 0) {
+      this.whereConditions.push({ type: "group", conditions, conjunction: outer.conjunction });
+    }
+    return this;
+  }
+
+  /**
+   * WHERE clause (AND condition) with group support
+   */
+  where(field: string, ...args: any[]): this {
+    if (args.length === 1) {
+      // where("col", value)
+      const value = args[0];
+      return this.addWhereCondition(field, "=", value);
+    } else if (args.length === 2) {
+      // where("col", operator, value)
+      const operator = args[0];
+      const value = args[1];
       return this.addWhereCondition(field, operator, value);
     } else {
       throw new Error("Invalid where syntax. Use where(field, value) or where(field, operator, value)");
@@ -514,40 +1069,28 @@ export class BaseModel {
   whereBetween(field: string, range: [any, any]): this {
     return this.addWhereCondition(field, "BETWEEN", range);
   }
+
+  /**
+   * Compare two columns: whereColumn(first, second) or whereColumn(first, operator, second)
+   */
+  whereColumn(first: string, operatorOrSecond: string, second?: string): this {
+    const [operator, column] = second === undefined ? ["=", operatorOrSecond] : [operatorOrSecond, second];
+    this.whereConditions.push({ type: "column", field: first, operator, value: column, conjunction: "AND" });
+    return this;
+  }
   whereGroup(callback: (query: this) => void): this {
-    this.whereGroupLevel++;
+    this.groupStart();
     callback(this);
-    this.whereGroupLevel--;
-
-    // Move grouped conditions to main stack
-    if (this.whereGroupLevel === 0 && this.whereGroupConditions.length) {
-      this.whereConditions.push({
-        type: "group",
-        conditions: [...this.whereGroupConditions],
-        conjunction: "AND",
-      });
-      this.whereGroupConditions = [];
-    }
-    return this;
+    return this.groupEnd();
   }
 
   orWhereGroup(callback: (query: this) => void): this {
-    this.whereGroupLevel++;
+    this.groupStart("OR");
     callback(this);
-    this.whereGroupLevel--;
-
-    if (this.whereGroupLevel === 0 && this.whereGroupConditions.length) {
-      this.whereConditions.push({
-        type: "group",
-        conditions: [...this.whereGroupConditions],
-        conjunction: "OR",
-      });
-      this.whereGroupConditions = [];
-    }
-    return this;
+    return this.groupEnd();
   }
   whereExists(subquery: (query: this) => void): this {
-    const subqueryBuilder = new (this.constructor as any)();
+    const subqueryBuilder = this.newModelInstance(this.constructor as typeof BaseModel) as any;
     subquery(subqueryBuilder);
 
     const [sql, params] = subqueryBuilder.buildSelect();
@@ -555,27 +1098,188 @@ export class BaseModel {
   }
 
   whereNotExists(subquery: (query: this) => void): this {
-    const subqueryBuilder = new (this.constructor as any)();
+    const subqueryBuilder = this.newModelInstance(this.constructor as typeof BaseModel) as any;
     subquery(subqueryBuilder);
 
     const [sql, params] = subqueryBuilder.buildSelect();
     return this.addWhereConditionRaw(`NOT EXISTS (${sql})`, params);
   }
-  protected addWhereCondition(field: string, operator: string, value?: any, conjunction: "AND" | "OR" = "AND"): this {
-    const condition: WhereCondition = {
-      field,
-      operator,
-      value,
-      conjunction,
-      group_level: this.whereGroupLevel,
-    };
 
-    if (this.whereGroupLevel > 0) {
-      this.whereGroupConditions.push(condition);
-    } else {
-      this.whereConditions.push(condition);
+  /**
+   * RELATIONSHIP EXISTENCE
+   */
+
+  /**
+   * Rows with related records. Nested relations use dot notation.
+   *
+   * @example
+   * ```typescript
+   * await new User().has('posts').get();
+   * await new User().has('posts', '>=', 3).get();
+   * await new User().has('posts.comments').get();
+   * ```
+   */
+  has(relationName: string, operator: string = ">=", count: number = 1): this {
+    return this.addHasCondition(relationName, operator, count, "AND");
+  }
+
+  /**
+   * Rows without related records
+   */
+  doesntHave(relationName: string): this {
+    return this.addHasCondition(relationName, "<", 1, "AND");
+  }
+
+  /**
+   * Rows with related records matching the callback's conditions
+   *
+   * @example
+   * ```typescript
+   * await new User().whereHas('posts', (query) => query.where('published', 1)).get();
+   * await new User().whereHas('roles', (query) => query.where('roles.name', 'admin')).get();
+   * ```
+   */
+  whereHas(relationName: string, callback?: (query: BaseModel) => void, operator: string = ">=", count: number = 1): this {
+    return this.addHasCondition(relationName, operator, count, "AND", callback);
+  }
+
+  orWhereHas(relationName: string, callback?: (query: BaseModel) => void, operator: string = ">=", count: number = 1): this {
+    return this.addHasCondition(relationName, operator, count, "OR", callback);
+  }
+
+  whereDoesntHave(relationName: string, callback?: (query: BaseModel) => void): this {
+    return this.addHasCondition(relationName, "<", 1, "AND", callback);
+  }
+
+  orWhereDoesntHave(relationName: string, callback?: (query: BaseModel) => void): this {
+    return this.addHasCondition(relationName, "<", 1, "OR", callback);
+  }
+
+  /**
+   * Compile a relation into a correlated EXISTS, NOT EXISTS or COUNT subquery
+   */
+  protected addHasCondition(
+    relationName: string,
+    operator: string,
+    count: number,
+    conjunction: "AND" | "OR",
+    callback?: (query: BaseModel) => void
+  ): this {
+    const [name, ...nested] = relationName.split(".");
+    if (nested.length > 0) {
+      // The count applies to the innermost relation
+      return this.addHasCondition(name, ">=", 1, conjunction, (query) => query.addHasCondition(nested.join("."), operator, count, "AND", callback));
+    }
+
+    const query = this.getRelationExistenceQuery(name);
+    if (callback) {
+      callback(query);
+    }
+
+    if ((operator === ">=" && count === 1) || (operator === ">" && count === 0)) {
+      const [sql, params] = query.buildSelect();
+      return this.addWhereConditionRaw(`EXISTS (${sql})`, params, conjunction);
+    }
+    if ((operator === "<" && count === 1) || (operator === "=" && count === 0)) {
+      const [sql, params] = query.buildSelect();
+      return this.addWhereConditionRaw(`NOT EXISTS (${sql})`, params, conjunction);
+    }
+
+    const [sql, params] = query.selectRaw("COUNT(*)").buildSelect();
+    return this.addWhereConditionRaw(`(${sql}) ${operator} ?`, [...params, count], conjunction);
+  }
+
+  /**
+   * RELATION AGGREGATES
+   */
+
+  /**
+   * Add a `{relation}_count` column with the number of related records
+   *
+   * @example
+   * ```typescript
+   * await new User().withCount('posts').get();                                   // posts_count
+   * await new User().withCount({ posts: (query) => query.where('published', 1) }).get();
+   * await new User().withCount('posts as drafts_count').get();
+   * ```
+   */
+  withCount(relations: string | string[] | EagerLoadConstraint): this {
+    return this.withAggregate(relations, "*", "count");
+  }
+
+  /**
+   * Add a `{relation}_sum_{column}` column
+   */
+  withSum(relations: string | string[] | EagerLoadConstraint, column: string): this {
+    return this.withAggregate(relations, column, "sum");
+  }
+
+  /**
+   * Add a `{relation}_exists` column telling whether related records exist
+   */
+  withExists(relations: string | string[] | EagerLoadConstraint): this {
+    return this.withAggregate(relations, "*", "exists");
+  }
+
+  /**
+   * Add a column computed by a subquery over each relation, named
+   * `{relation}_{fn}_{column}` (or `{relation}_{fn}` for counts and exists)
+   * unless aliased with `'posts as alias'`
+   */
+  withAggregate(relations: string | string[] | EagerLoadConstraint, column: string, fn: "count" | "sum" | "avg" | "min" | "max" | "exists"): this {
+    const entries: [string, ((query: BaseModel) => void) | undefined][] =
+      typeof relations === "string"
+        ? [[relations, undefined]]
+        : Array.isArray(relations)
+          ? relations.map((relation) => [relation, undefined])
+          : Object.entries(relations);
+
+    for (const [definition, callback] of entries) {
+      const [relationName, alias] = definition.split(/\s+as\s+/i).map((part) => part.trim());
+      const query = this.getRelationExistenceQuery(relationName);
+      if (callback) {
+        callback(query);
+      }
+
+      const name = alias || (column === "*" ? `${relationName}_${fn}` : `${relationName}_${fn}_${column}`);
+
+      let sql: string;
+      let params: any[];
+      if (fn === "exists") {
+        [sql, params] = query.buildSelect();
+        sql = `EXISTS (${sql})`;
+      } else {
+        const expression = column === "*" ? "*" : this.wrap(query.qualifyColumn(column));
+        [sql, params] = query.selectRaw(`${fn.toUpperCase()}(${expression})`).buildSelect();
+        sql = `(${sql})`;
+      }
+      this.relationAggregates.push({ sql: `${sql} AS ${this.wrap(name)}`, params });
+    }
+    return this;
+  }
+
+  /**
+   * Query of the related model, correlated with this model's table
+   */
+  protected getRelationExistenceQuery(relationName: string): BaseModel {
+    const relation = this.getRelation(relationName);
+    const query = this.newRelationQuery(relation);
+    const keys = this.getRelationKeys(relation, query);
+    if (keys.morphType) {
+      query.where(keys.morphType.column, keys.morphType.value);
     }
+    return query.whereColumn(keys.relatedColumn, "=", keys.parentColumn);
+  }
+  /**
+   * Add a trusted raw condition without the field whitelist check of whereRaw()
+   */
+  protected addWhereConditionRaw(sql: string, params: any[] = [], conjunction: "AND" | "OR" = "AND"): this {
+    this.whereConditions.push({ type: "raw", sql, params, conjunction });
+    return this;
+  }
 
+  protected addWhereCondition(field: string, operator: string, value?: any, conjunction: "AND" | "OR" = "AND"): this {
+    this.whereConditions.push({ field, operator, value, conjunction });
     return this;
   }
   whereRaw(sql: string, params: any[] = []): this {
@@ -594,46 +1298,204 @@ export class BaseModel {
       throw new Error("Potentially dangerous SQL detected");
     }
 
-    this.whereConditionsRaw.push({ sql, params });
+    return this.addWhereConditionRaw(sql, params);
+  }
+  /**
+   * LOCAL SCOPES
+   */
+
+  /**
+   * Apply a local scope to the query. Scopes are also callable by name.
+   *
+   * @example
+   * ```typescript
+   * class User extends BaseModel {
+   *   static scopes = {
+   *     active: (query: User) => query.where('active', true),
+   *     olderThan: (query: User, age: number) => query.where('age', '>', age),
+   *   };
+   * }
+   *
+   * await new User().active().olderThan(30).get();
+   * await new User().scope('olderThan', 30).get();
+   * ```
+   */
+  scope(name: string, ...args: any[]): this {
+    const scope = (this.constructor as typeof BaseModel).scopes[name];
+    if (!scope) {
+      throw new Error(`Scope ${name} not defined on ${this.constructor.name}`);
+    }
+    scope(this, ...args);
+    return this;
+  }
+
+  /**
+   * GLOBAL SCOPES
+   */
+
+  /**
+   * The model's own copy of an inherited static registry, made on first write so
+   * that what a subclass registers doesn't leak into its parent
+   */
+  static ownRegistry<K extends "relations" | "hooks" | "globalScopes" | "scopes">(key: K): (typeof BaseModel)[K] {
+    if (!Object.prototype.hasOwnProperty.call(this, key)) {
+      (this as any)[key] = { ...this[key] };
+    }
+    return this[key];
+  }
+
+  /**
+   * Register a constraint applied to every query of the model
+   *
+   * @example
+   * ```typescript
+   * Post.addGlobalScope('published', (query) => query.where('status', 'published'));
+   *
+   * await new Post().get();                                  // published posts only
+   * await new Post().withoutGlobalScope('published').get();  // all posts
+   * ```
+   */
+  static addGlobalScope(name: string, scope: GlobalScope): void {
+    this.ownRegistry("globalScopes")[name] = scope;
+  }
+
+  /**
+   * Active global scopes, soft deletes first
+   */
+  static getGlobalScopes(): Record<string, GlobalScope> {
+    const scopes: Record<string, GlobalScope> = {};
+    const { softDeletes, deletedAt } = this.config;
+    if (softDeletes && deletedAt) {
+      scopes[SOFT_DELETES_SCOPE] = (query) => query.whereNull(query.qualifyColumn(deletedAt));
+    }
+    return { ...scopes, ...this.globalScopes };
+  }
+
+  /**
+   * Skip a global scope for this query
+   */
+  withoutGlobalScope(name: string): this {
+    this.removedScopes.add(name);
     return this;
   }
-  protected buildWhereClauses(): { sql: string | undefined; params: any[] } {
-    const params: any[] = [];
-    const clauses: string[] = [];
-    console.log(`clauses: ${JSON.stringify(clauses)}`);
-
-    // Process all conditions
-    for (const condition of this.whereConditions) {
-      if (condition.type === "group") {
-        const groupSql = this.buildConditionGroup(condition, params);
-        clauses.push(groupSql);
-        console.log(`Adding group condition: ${groupSql}`);
-      } else {
-        // Handle single conditions
-        console.log(`Adding single condition: ${JSON.stringify(condition)}`);
 
-        const conditionSql = this.buildSingleCondition(condition, params);
-        clauses.push(conditionSql);
+  /**
+   * Skip the given global scopes, or all of them, for this query
+   */
+  withoutGlobalScopes(names?: string[]): this {
+    const scopes = names || Object.keys((this.constructor as typeof BaseModel).getGlobalScopes());
+    scopes.forEach((name) => this.removedScopes.add(name));
+    return this;
+  }
+
+  /**
+   * Conditions of the active global scopes, built on a separate query so repeated
+   * calls on this builder don't stack them
+   */
+  protected buildGlobalScopeClauses(): { sql: string | undefined; params: any[] } {
+    if (this.globalScopesDisabled) return { sql: undefined, params: [] };
+
+    const scoped = this.newQuery();
+    for (const [name, scope] of Object.entries((this.constructor as typeof BaseModel).getGlobalScopes())) {
+      if (!this.removedScopes.has(name)) {
+        scope(scoped);
       }
     }
+    if (!this.throughContext) {
+      return scoped.buildWhereClauses();
+    }
 
-    // Add raw conditions
-    for (const raw of this.whereConditionsRaw) {
-      console.log(`Adding raw condition: ${JSON.stringify(raw)}`);
+    // The intermediate model's scopes apply too, e.g. soft-deleted users hide their posts
+    const own = scoped.buildWhereClauses();
+    const through = this.newModelInstance(this.throughContext.model).buildGlobalScopeClauses();
+    const clauses = [own.sql, through.sql].filter((clause): clause is string => Boolean(clause));
+    return {
+      sql: clauses.length > 0 ? clauses.map((clause) => clause.trim()).join(" AND ") : undefined,
+      params: [...own.params, ...through.params],
+    };
+  }
 
-      clauses.push(raw.sql);
-      params.push(...raw.params);
-    }
-    console.log(`Building WHERE clauses: ${JSON.stringify(clauses)} `, clauses.length);
+  /**
+   * WHERE clauses of the query together with the active global scopes
+   */
+  protected buildScopedWhereClauses(): { sql: string | undefined; params: any[] } {
+    const query = this.buildWhereClauses();
+    const scoped = this.buildGlobalScopeClauses();
+    const clauses = [query.sql, scoped.sql].filter((clause): clause is string => Boolean(clause));
 
     return {
-      sql: clauses.length > 0 ? ` ${clauses.join(" AND ")}` : undefined,
-      params,
+      sql: clauses.length > 0 ? ` ${clauses.map((clause) => clause.trim()).join(" AND ")}` : undefined,
+      params: [...query.params, ...scoped.params],
     };
   }
 
+  /**
+   * Run record-level writes (save, restore, ...) against the row itself, whatever the scopes say
+   */
+  protected async withoutScopesApplied<T>(callback: () => Promise<T>): Promise<T> {
+    const disabled = this.globalScopesDisabled;
+    this.globalScopesDisabled = true;
+    try {
+      return await callback();
+    } finally {
+      this.globalScopesDisabled = disabled;
+    }
+  }
+
+  protected buildWhereClauses(): { sql: string | undefined; params: any[] } {
+    const params: any[] = [];
+    if (this.whereConditions.length === 0) {
+      return { sql: undefined, params };
+    }
+
+    let sql = this.buildConditions(this.whereConditions, params);
+    // Keep OR conditions together when the clause is ANDed with keys or scopes
+    if (this.whereConditions.some((condition, index) => index > 0 && condition.conjunction === "OR")) {
+      sql = `(${sql})`;
+    }
+
+    return { sql: ` ${sql}`, params };
+  }
+
+  /**
+   * Group the current conditions when they contain OR, so conditions added next apply to all of them
+   */
+  protected wrapWhereConditions(): this {
+    if (this.whereConditions.some((condition, index) => index > 0 && condition.conjunction === "OR")) {
+      this.whereConditions = [{ type: "group", conditions: this.whereConditions, conjunction: "AND" }];
+    }
+    return this;
+  }
+
+  /**
+   * Join conditions with their conjunctions
+   */
+  protected buildConditions(conditions: WhereCondition[], params: any[]): string {
+    return conditions
+      .map((condition, index) => {
+        const sql = this.buildCondition(condition, params);
+        return index === 0 ? sql : `${condition.conjunction || "AND"} ${sql}`;
+      })
+      .join(" ");
+  }
+
+  protected buildCondition(condition: WhereCondition, params: any[]): string {
+    switch (condition.type) {
+      case "group":
+        return `(${this.buildConditions(condition.conditions || [], params)})`;
+      case "raw":
+        params.push(...(condition.params || []));
+        return condition.sql!;
+      case "column":
+        return `${this.wrap(condition.field!)} ${condition.operator} ${this.wrap(condition.value)}`;
+      default:
+        return this.buildSingleCondition(condition, params);
+    }
+  }
+
   private buildSingleCondition(condition: WhereCondition, params: any[]): string {
-    const { field, operator, value } = condition;
+    const { operator, value } = condition;
+    const field = this.wrap(condition.field!);
 
     switch (operator) {
       case "IN":
@@ -656,20 +1518,13 @@ export class BaseModel {
     }
   }
   whereJsonContains(field: string, value: any): this {
-    if (BaseModel.dbConfig.client === "mysql") {
-      return this.whereRaw(`JSON_CONTAINS(${field}, ?)`, [JSON.stringify(value)]);
-    } else {
-      // SQLite/SQL Server/PostgreSQL variants
-      return this.whereRaw(`${field} @> ?::jsonb`, [JSON.stringify(value)]);
-    }
+    const { sql, params } = this.getDialect().compileJsonContains(field, value);
+    return this.addWhereConditionRaw(sql, params);
   }
 
   whereJsonLength(field: string, operator: string, length: number): this {
-    if (BaseModel.dbConfig.client === "mysql") {
-      return this.whereRaw(`JSON_LENGTH(${field}) ${operator} ?`, [length]);
-    } else {
-      return this.whereRaw(`jsonb_array_length(${field}) ${operator} ?`, [length]);
-    }
+    const { sql, params } = this.getDialect().compileJsonLength(field, operator, length);
+    return this.addWhereConditionRaw(sql, params);
   }
   whereDate(field: string, operator: string, value: Date | string): this {
     const dateValue = value instanceof Date ? value.toISOString().split("T")[0] : value;
@@ -680,294 +1535,1643 @@ export class BaseModel {
     const timeValue = value instanceof Date ? value.toISOString().split("T")[1].split(".")[0] : value;
     return this.whereRaw(`TIME(${field}) ${operator} ?`, [timeValue]);
   }
-  whereFullText(fields: string[], query: string, mode: "natural" | "boolean" = "natural"): this {
-    if (BaseModel.dbConfig.client === "mysql") {
-      return this.whereRaw(`MATCH(${fields.join(",")}) AGAINST(? ${mode === "boolean" ? "IN BOOLEAN MODE" : ""})`, [query]);
-    } else {
-      // PostgreSQL/SQLite variants
-      return this.whereRaw(`to_tsvector(${fields.join(" || ' ' || ")}) @@ ${mode === "boolean" ? "plain" : "to"}to_tsquery(?)`, [query]);
+  whereFullText(fields: string[], query: string, mode: "natural" | "boolean" = "natural"): this {
+    const { sql, params } = this.getDialect().compileFullText(fields, query, mode);
+    return this.addWhereConditionRaw(sql, params);
+  }
+  /**
+   * OR WHERE clause with group support
+   */
+  orWhere(field: string, value: any, operator: string = "="): this {
+    if (value === null) return this.addWhereCondition(field, "IS NULL", undefined, "OR");
+    return this.addWhereCondition(field, operator, value, "OR");
+  }
+
+  /**
+   * Execute query with WHERE conditions
+   */
+  protected async executeWhereQuery<T = any>(): Promise<T[]> {
+    const [sql, values] = this.buildSelect();
+
+    // Reset conditions
+    this.resetQuery();
+
+    const rows = await this.executeReadQuery(sql, values);
+    return rows as T[];
+  }
+
+  /**
+   * Compile the current query state into a SELECT statement and its bindings
+   */
+  protected buildSelect(): [string, any[]] {
+    const values: any[] = [];
+    let sql = `SELECT ${this.isDistinct ? "DISTINCT " : ""}${this.buildColumns(values)} FROM ${this.buildFrom(values)}`;
+
+    // Process all WHERE conditions
+    const whereClauses = this.buildScopedWhereClauses();
+
+    // Combine WHERE clauses if any exist
+    if (whereClauses.sql) {
+      sql += ` WHERE ${whereClauses.sql}`;
+      values.push(...whereClauses.params);
+    }
+
+    if (this.groupByColumns.length > 0) {
+      sql += ` GROUP BY ${this.groupByColumns.map((column) => this.wrap(column)).join(", ")}`;
+    }
+
+    if (this.havingConditions.length > 0) {
+      sql += ` HAVING ${this.buildConditions(this.havingConditions, values)}`;
+    }
+
+    // ORDER BY clauses
+    if (this.orderByConditions.length > 0) {
+      const orderClauses = this.orderByConditions.map((order) => `${this.wrap(order.field)} ${order.direction}`);
+      sql += ` ORDER BY ${orderClauses.join(", ")}`;
+    }
+
+    // LIMIT/OFFSET clauses
+    const limitClause = this.getLimitClause(this._limit, this.offset);
+    if (limitClause) {
+      sql += ` ${limitClause}`;
+    }
+
+    return [sql, values];
+  }
+
+  /**
+   * Selected columns, `*` when none were given
+   */
+  protected buildColumns(params: any[]): string {
+    const columns = this.selectColumns.map(({ sql, params: bindings }) => {
+      params.push(...bindings);
+      return sql;
+    });
+
+    // Handle SELECT SUM if specified
+    for (const [field, alias] of Object.entries(this.selectSumFields)) {
+      columns.push(`SUM(${this.wrap(field)}) AS ${this.wrap(alias)}`);
+    }
+
+    if (columns.length === 0) {
+      // Only the model's own columns, so joined tables don't overwrite its id
+      columns.push(this.joins.length > 0 || this.pivotContext || this.throughContext ? this.wrap(`${this.table}.*`) : "*");
+      if (this.pivotContext) {
+        const { table, foreignKey, relatedKey, columns: pivotColumns } = this.pivotContext;
+        for (const column of [foreignKey, relatedKey, ...pivotColumns]) {
+          columns.push(`${this.wrap(`${table}.${column}`)} AS ${this.wrap(`pivot_${column}`)}`);
+        }
+      }
+      if (this.throughContext) {
+        const { table, firstKey } = this.throughContext;
+        columns.push(`${this.wrap(`${table}.${firstKey}`)} AS ${this.wrap("through_key")}`);
+      }
+    }
+
+    for (const { sql, params: bindings } of this.relationAggregates) {
+      params.push(...bindings);
+      columns.push(sql);
+    }
+
+    return columns.join(", ");
+  }
+
+  /**
+   * The model's table and its joins
+   */
+  protected buildFrom(params: any[]): string {
+    const wrap = (value: string) => this.wrap(value);
+    const joins = [...this.joins];
+    if (this.pivotContext) {
+      const { table, relatedKey, morphType } = this.pivotContext;
+      const join = new JoinClause("INNER", table).on(`${table}.${relatedKey}`, "=", `${this.table}.${this.primaryKey}`);
+      if (morphType) {
+        join.where(`${table}.${morphType.column}`, morphType.value);
+      }
+      joins.unshift(join);
+    }
+    if (this.throughContext) {
+      const { table, secondKey, secondLocalKey } = this.throughContext;
+      joins.unshift(new JoinClause("INNER", table).on(`${table}.${secondLocalKey}`, "=", `${this.table}.${secondKey}`));
+    }
+    return [this.wrap(this.table), ...joins.map((join) => join.compile(wrap, params))].join(" ");
+  }
+
+  /**
+   * Reset all query conditions including groups
+   */
+  resetQuery(): void {
+    this.whereConditions = [];
+    this.whereInConditions = [];
+    this.whereGroupStack = [];
+    this.orderByConditions = [];
+    this._limit = null;
+    this.offset = null;
+    this.selectSumFields = {};
+    this.selectColumns = [];
+    this.isDistinct = false;
+    this.groupByColumns = [];
+    this.havingConditions = [];
+    this.joins = [];
+    this.relationAggregates = [];
+    this.removedScopes = new Set();
+  }
+
+  limit(limit: number, offset: number = 0): this {
+    this._limit = limit;
+    this.offset = offset;
+    return this;
+  }
+
+  /**
+   * SELECT AND AGGREGATES
+   */
+
+  /**
+   * Columns to select, optionally aliased (`'name as author'`)
+   */
+  select(...columns: (string | string[])[]): this {
+    for (const column of columns.flat()) {
+      this.selectColumns.push({ sql: this.wrap(column), params: [] });
+    }
+    return this;
+  }
+
+  /**
+   * Add a raw expression to the selected columns
+   *
+   * @example
+   * ```typescript
+   * new Order().selectRaw('price * ? AS price_with_tax', [1.2]).get();
+   * ```
+   */
+  selectRaw(sql: string, params: any[] = []): this {
+    this.selectColumns.push({ sql, params });
+    return this;
+  }
+
+  distinct(): this {
+    this.isDistinct = true;
+    return this;
+  }
+
+  selectSum(field: string, alias: string | null = null): this {
+    this.selectSumFields[field] = alias || field;
+    return this;
+  }
+
+  groupBy(...columns: (string | string[])[]): this {
+    this.groupByColumns.push(...columns.flat());
+    return this;
+  }
+
+  /**
+   * HAVING condition, like where(). Aggregate expressions such as `COUNT(*)` are not quoted.
+   *
+   * @example
+   * ```typescript
+   * await new Order()
+   *   .select('customer_id')
+   *   .selectRaw('SUM(total) AS revenue')
+   *   .groupBy('customer_id')
+   *   .having('SUM(total)', '>', 1000)
+   *   .get();
+   * ```
+   */
+  having(field: string, ...args: any[]): this {
+    return this.addHavingCondition(field, args, "AND");
+  }
+
+  orHaving(field: string, ...args: any[]): this {
+    return this.addHavingCondition(field, args, "OR");
+  }
+
+  havingRaw(sql: string, params: any[] = []): this {
+    this.havingConditions.push({ type: "raw", sql, params, conjunction: "AND" });
+    return this;
+  }
+
+  protected addHavingCondition(field: string, args: any[], conjunction: "AND" | "OR"): this {
+    if (args.length < 1 || args.length > 2) {
+      throw new Error("Invalid having syntax. Use having(field, value) or having(field, operator, value)");
+    }
+    const [operator, value] = args.length === 1 ? ["=", args[0]] : args;
+    this.havingConditions.push({ field, operator, value, conjunction });
+    return this;
+  }
+
+  /**
+   * JOINS
+   */
+
+  /**
+   * INNER JOIN another table: join(table, first, second), join(table, first, operator, second)
+   * or join(table, (join) => ...) for several conditions
+   *
+   * @example
+   * ```typescript
+   * await new User()
+   *   .join('posts as p', 'p.user_id', '=', 'users.id')
+   *   .select('users.*', 'p.title')
+   *   .where('p.status', 'published')
+   *   .get();
+   * ```
+   */
+  join(table: string, first: string | ((join: JoinClause) => void), operator?: string, second?: string): this {
+    return this.addJoin("INNER", table, first, operator, second);
+  }
+
+  leftJoin(table: string, first: string | ((join: JoinClause) => void), operator?: string, second?: string): this {
+    return this.addJoin("LEFT", table, first, operator, second);
+  }
+
+  rightJoin(table: string, first: string | ((join: JoinClause) => void), operator?: string, second?: string): this {
+    return this.addJoin("RIGHT", table, first, operator, second);
+  }
+
+  crossJoin(table: string): this {
+    this.joins.push(new JoinClause("CROSS", table));
+    return this;
+  }
+
+  protected addJoin(type: JoinType, table: string, first: string | ((join: JoinClause) => void), operator?: string, second?: string): this {
+    const join = new JoinClause(type, table);
+    if (typeof first === "function") {
+      first(join);
+    } else {
+      if (operator === undefined) {
+        throw new Error("Invalid join syntax. Use join(table, first, second) or join(table, first, operator, second)");
+      }
+      join.on(first, operator, second);
+    }
+    this.joins.push(join);
+    return this;
+  }
+
+  /**
+   * Join the table of a relation, with the ON clause taken from its definition
+   *
+   * @example
+   * ```typescript
+   * await new User().joinRelation('posts').where('posts.status', 'published').get();
+   * await new User().joinRelation('roles', 'LEFT').get(); // through the pivot table
+   * ```
+   */
+  joinRelation(relationName: string, type: Exclude<JoinType, "CROSS"> = "INNER"): this {
+    const relation = this.getRelation(relationName);
+    const related = this.newModelInstance(this.getRelatedModel(relation));
+    const keys = this.getRelationKeys(relation, related);
+
+    if (keys.pivot) {
+      const { table, column, relatedColumn, morphType } = keys.pivot;
+      this.addJoin(type, table, (join) => {
+        join.on(keys.relatedColumn, "=", keys.parentColumn);
+        if (morphType) join.where(morphType.column, morphType.value);
+      });
+      return this.addJoin(type, related.table, relatedColumn, "=", column);
+    }
+    return this.addJoin(type, related.table, (join) => {
+      join.on(keys.relatedColumn, "=", keys.parentColumn);
+      if (keys.morphType) join.where(keys.morphType.column, keys.morphType.value);
+    });
+  }
+
+  /**
+   * Get a relation definition by name
+   */
+  protected getRelation(relationName: string): Relation {
+    const relation = (this.constructor as typeof BaseModel).relations[relationName];
+    if (!relation) {
+      throw new Error(`Relation ${relationName} not defined on ${this.constructor.name}`);
+    }
+    return relation;
+  }
+
+  /**
+   * Qualified columns linking a relation to this model, with the same key defaults as eager loading
+   */
+  protected getRelationKeys(relation: Relation, related: BaseModel): RelationKeys {
+    const parentName = this.constructor.name.toLowerCase();
+    const relatedName = this.getRelatedModel(relation).name.toLowerCase();
+
+    switch (relation.type) {
+      case RelationType.HAS_ONE:
+      case RelationType.HAS_MANY:
+        return {
+          relatedColumn: `${related.table}.${relation.foreignKey || `${parentName}_id`}`,
+          parentColumn: `${this.table}.${relation.localKey || this.primaryKey}`,
+        };
+
+      case RelationType.BELONGS_TO:
+        return {
+          relatedColumn: `${related.table}.${relation.localKey || related.primaryKey}`,
+          parentColumn: `${this.table}.${relation.foreignKey || `${relatedName}_id`}`,
+        };
+
+      case RelationType.MORPH_ONE:
+      case RelationType.MORPH_MANY: {
+        const { morphType, foreignKey } = this.getMorphColumns(relation);
+        return {
+          relatedColumn: `${related.table}.${foreignKey}`,
+          parentColumn: `${this.table}.${relation.localKey || this.primaryKey}`,
+          morphType: { column: `${related.table}.${morphType}`, value: (this.constructor as typeof BaseModel).getMorphClass() },
+        };
+      }
+
+      case RelationType.BELONGS_TO_MANY:
+      case RelationType.MORPH_TO_MANY: {
+        const { table, foreignKey, relatedKey, morphType } = this.getPivotKeys(relation);
+        return {
+          relatedColumn: `${table}.${foreignKey}`,
+          parentColumn: `${this.table}.${this.primaryKey}`,
+          pivot: {
+            table,
+            column: `${table}.${relatedKey}`,
+            relatedColumn: `${related.table}.${related.primaryKey}`,
+            morphType: morphType && { column: `${table}.${morphType.column}`, value: morphType.value },
+          },
+        };
+      }
+
+      case RelationType.HAS_MANY_THROUGH:
+      case RelationType.HAS_ONE_THROUGH: {
+        const { table, firstKey, secondKey, secondLocalKey, localKey } = this.getThroughKeys(relation);
+        return {
+          relatedColumn: `${table}.${firstKey}`,
+          parentColumn: `${this.table}.${localKey}`,
+          pivot: {
+            table,
+            column: `${table}.${secondLocalKey}`,
+            relatedColumn: `${related.table}.${secondKey}`,
+          },
+        };
+      }
+
+      default:
+        throw new Error(`Unsupported relation type ${relation.type}`);
+    }
+  }
+
+  /**
+   * Intermediate model of a through relation, its table and the keys linking it to the parent and the related model
+   */
+  protected getThroughKeys(relation: Relation): {
+    model: typeof BaseModel;
+    table: string;
+    firstKey: string;
+    secondKey: string;
+    secondLocalKey: string;
+    localKey: string;
+  } {
+    if (!relation.through) {
+      throw new Error(`${relation.type} relation needs a through model`);
+    }
+
+    const through = this.newModelInstance(relation.through);
+    return {
+      model: relation.through,
+      table: through.table,
+      firstKey: relation.firstKey || `${this.constructor.name.toLowerCase()}_id`,
+      secondKey: relation.secondKey || `${relation.through.name.toLowerCase()}_id`,
+      secondLocalKey: relation.secondLocalKey || through.primaryKey,
+      localKey: relation.localKey || this.primaryKey,
+    };
+  }
+
+  /**
+   * Model class of a relation; morphTo relations have one per type
+   */
+  protected getRelatedModel(relation: Relation): typeof BaseModel {
+    if (!relation.model) {
+      throw new Error(`${relation.type} relations have no single related model`);
+    }
+    return relation.model;
+  }
+
+  /**
+   * Type and key columns of a polymorphic relation
+   */
+  protected getMorphColumns(relation: Relation): { morphType: string; foreignKey: string } {
+    if (!relation.morphName) {
+      throw new Error(`${relation.type} relation needs a morphName`);
+    }
+    return {
+      morphType: relation.morphType || `${relation.morphName}_type`,
+      foreignKey: relation.foreignKey || `${relation.morphName}_id`,
+    };
+  }
+
+  /**
+   * Pivot table of a belongsToMany relation and its columns pointing to this model and the
+   * related one. morphToMany pivots are named after the morph name and also store its type.
+   */
+  protected getPivotKeys(relation: Relation): {
+    table: string;
+    foreignKey: string;
+    relatedKey: string;
+    morphType?: { column: string; value: string };
+  } {
+    const parentName = this.constructor.name.toLowerCase();
+    const relatedName = this.getRelatedModel(relation).name.toLowerCase();
+
+    if (relation.type === RelationType.MORPH_TO_MANY) {
+      const { morphType, foreignKey } = this.getMorphColumns(relation);
+      return {
+        table: relation.pivotTable || `${relation.morphName}s`,
+        foreignKey,
+        relatedKey: relation.relatedKey || `${relatedName}_id`,
+        morphType: { column: morphType, value: (this.constructor as typeof BaseModel).getMorphClass() },
+      };
+    }
+
+    return {
+      table: relation.pivotTable || `${parentName}_${relatedName}`,
+      foreignKey: relation.foreignKey || `${parentName}_id`,
+      relatedKey: relation.relatedKey || `${relatedName}_id`,
+    };
+  }
+
+  /**
+   * Query of a relation's model; belongsToMany and morphToMany queries read through the
+   * pivot table, through relations join the intermediate table
+   */
+  protected newRelationQuery(relation: Relation): BaseModel {
+    const query = this.newModelInstance(this.getRelatedModel(relation));
+    if (relation.type === RelationType.BELONGS_TO_MANY || relation.type === RelationType.MORPH_TO_MANY) {
+      query.pivotContext = { ...this.getPivotKeys(relation), columns: [...(relation.withPivot || [])] };
+    }
+    if (relation.type === RelationType.HAS_MANY_THROUGH || relation.type === RelationType.HAS_ONE_THROUGH) {
+      const { model, table, firstKey, secondKey, secondLocalKey } = this.getThroughKeys(relation);
+      query.throughContext = { model, table, firstKey, secondKey, secondLocalKey };
+    }
+    return query;
+  }
+
+  /**
+   * Prefix a column with the model's table, unless it already names a table
+   */
+  qualifyColumn(column: string): string {
+    return column.includes(".") ? column : `${this.table}.${column}`;
+  }
+
+  /**
+   * Number of rows matching the query. Passing conditions (`{ status: 'active' }`)
+   * adds them as where() conditions.
+   */
+  async count(column: string | Record<string, any> = "*"): Promise<number> {
+    if (typeof column !== "string") {
+      Object.entries(column).forEach(([field, value]) => this.where(field, value));
+      column = "*";
+    }
+    const result = await this.aggregate("COUNT", column);
+    return result ? parseInt(result) : 0;
+  }
+
+  async min<T = any>(column: string): Promise<T | null> {
+    return this.aggregate("MIN", column);
+  }
+
+  async max<T = any>(column: string): Promise<T | null> {
+    return this.aggregate("MAX", column);
+  }
+
+  async avg(column: string): Promise<number | null> {
+    const result = await this.aggregate("AVG", column);
+    return result === null || result === undefined ? null : Number(result);
+  }
+
+  async sum(column: string): Promise<number> {
+    const result = await this.aggregate("SUM", column);
+    return result === null || result === undefined ? 0 : Number(result);
+  }
+
+  /**
+   * Run an aggregate function over the rows matching the query
+   */
+  protected async aggregate(fn: string, column: string): Promise<any> {
+    const [sql, values] = this.buildAggregate(fn, column);
+    this.resetQuery();
+
+    const rows = await this.executeReadQuery(sql, values);
+    return rows[0]?.aggregate ?? null;
+  }
+
+  /**
+   * Compile an aggregate query. Counts of DISTINCT or grouped queries count the
+   * rows of the query itself.
+   */
+  protected buildAggregate(fn: string, column: string): [string, any[]] {
+    const expression = `${fn}(${this.wrap(column)}) AS ${this.wrap("aggregate")}`;
+
+    if (fn === "COUNT" && (this.isDistinct || this.groupByColumns.length > 0)) {
+      const [subquery, values] = this.buildSelect();
+      return [`SELECT ${expression} FROM (${subquery}) AS ${this.wrap("aggregate_table")}`, values];
+    }
+
+    const values: any[] = [];
+    let sql = `SELECT ${expression} FROM ${this.buildFrom(values)}`;
+    const whereClauses = this.buildScopedWhereClauses();
+    if (whereClauses.sql) {
+      sql += ` WHERE ${whereClauses.sql}`;
+      values.push(...whereClauses.params);
+    }
+    return [sql, values];
+  }
+  /**
+   * TRANSACTION SUPPORT
+   *
+   * Runs the callback on a single reserved connection. Models used anywhere in
+   * the callback's async call tree join the transaction; nested calls use savepoints.
+   */
+  static async transaction<T>(callback: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return Transaction.run(BaseModel.resolveConnection(this.getConnectionName()), callback);
+  }
+
+  /**
+   * Run a callback in a transaction on this instance's connection, or in a savepoint
+   * of the transaction already in use
+   */
+  protected async runInTransaction<T>(callback: () => Promise<T>): Promise<T> {
+    return Transaction.run(this.getConnection(), () => callback());
+  }
+
+  /**
+   * Run a callback outside of the ambient transaction. Rejects inside a SQLite
+   * transaction, which the callback's queries would wait for.
+   */
+  static async withoutTransaction<T>(callback: () => Promise<T>): Promise<T> {
+    return Transaction.outside(callback);
+  }
+
+  /**
+   * RELATIONSHIPS
+   */
+
+  /**
+   * Register a relation definition; the static helpers and the relation decorators go through it
+   */
+  static addRelation(name: string, relation: Relation): void {
+    this.ownRegistry("relations")[name] = relation;
+
+    // Models with polymorphic children can be resolved from the class name stored in the type column
+    if (relation.type === RelationType.MORPH_ONE || relation.type === RelationType.MORPH_MANY || relation.type === RelationType.MORPH_TO_MANY) {
+      morphedModels.set(this.name, this);
+    }
+  }
+
+  static hasOne({ model, foreignKey, localKey, as }: { model: typeof BaseModel; foreignKey?: string; localKey?: string; as?: string }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.HAS_ONE,
+      model,
+      foreignKey,
+      localKey,
+    });
+  }
+
+  static hasMany({ model, foreignKey, localKey, as }: { model: typeof BaseModel; foreignKey?: string; localKey?: string; as?: string }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.HAS_MANY,
+      model,
+      foreignKey,
+      localKey,
+    });
+  }
+
+  static belongsTo({ model, foreignKey, ownerKey, as }: { model: typeof BaseModel; foreignKey?: string; ownerKey?: string; as?: string }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.BELONGS_TO,
+      model,
+      foreignKey,
+      localKey: ownerKey,
+    });
+  }
+
+  static belongsToMany({
+    model,
+    foreignKey,
+    pivotTable,
+    relatedKey,
+    withPivot,
+    pivotTimestamps,
+    as,
+  }: {
+    model: typeof BaseModel;
+    pivotTable: string;
+    foreignKey?: string;
+    relatedKey?: string;
+    withPivot?: string[];
+    pivotTimestamps?: boolean;
+    as?: string;
+  }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.BELONGS_TO_MANY,
+      model,
+      pivotTable,
+      foreignKey,
+      relatedKey,
+      withPivot,
+      pivotTimestamps,
+    });
+  }
+
+  /**
+   * Owning side of a polymorphic relation: the related model is named by the
+   * `{morphName}_type` column and its key is in `{morphName}_id`
+   *
+   * @example
+   * ```typescript
+   * Comment.morphTo({ as: 'commentable' });
+   * ```
+   */
+  static morphTo({
+    as,
+    morphName,
+    morphType,
+    foreignKey,
+    ownerKey,
+  }: {
+    as: string;
+    morphName?: string;
+    morphType?: string;
+    foreignKey?: string;
+    ownerKey?: string;
+  }): void {
+    this.addRelation(as, {
+      type: RelationType.MORPH_TO,
+      morphName: morphName || as,
+      morphType,
+      foreignKey,
+      localKey: ownerKey,
+    });
+  }
+
+  /**
+   * Polymorphic one-to-one: the related row points back through its `{morphName}_type` and `{morphName}_id` columns
+   */
+  static morphOne({
+    model,
+    morphName,
+    morphType,
+    foreignKey,
+    localKey,
+    as,
+  }: {
+    model: typeof BaseModel;
+    morphName: string;
+    morphType?: string;
+    foreignKey?: string;
+    localKey?: string;
+    as?: string;
+  }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.MORPH_ONE,
+      model,
+      morphName,
+      morphType,
+      foreignKey,
+      localKey,
+    });
+  }
+
+  /**
+   * Polymorphic one-to-many
+   *
+   * @example
+   * ```typescript
+   * Post.morphMany({ model: Comment, morphName: 'commentable', as: 'comments' });
+   * Video.morphMany({ model: Comment, morphName: 'commentable', as: 'comments' });
+   * ```
+   */
+  static morphMany({
+    model,
+    morphName,
+    morphType,
+    foreignKey,
+    localKey,
+    as,
+  }: {
+    model: typeof BaseModel;
+    morphName: string;
+    morphType?: string;
+    foreignKey?: string;
+    localKey?: string;
+    as?: string;
+  }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.MORPH_MANY,
+      model,
+      morphName,
+      morphType,
+      foreignKey,
+      localKey,
+    });
+  }
+
+  /**
+   * Polymorphic many-to-many through a pivot table (default: `{morphName}s`) with
+   * `{morphName}_type`, `{morphName}_id` and `{related}_id` columns
+   *
+   * @example
+   * ```typescript
+   * Post.morphToMany({ model: Tag, morphName: 'taggable', as: 'tags' }); // taggables table
+   * ```
+   */
+  static morphToMany({
+    model,
+    morphName,
+    pivotTable,
+    morphType,
+    foreignKey,
+    relatedKey,
+    withPivot,
+    pivotTimestamps,
+    as,
+  }: {
+    model: typeof BaseModel;
+    morphName: string;
+    pivotTable?: string;
+    morphType?: string;
+    foreignKey?: string;
+    relatedKey?: string;
+    withPivot?: string[];
+    pivotTimestamps?: boolean;
+    as?: string;
+  }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.MORPH_TO_MANY,
+      model,
+      morphName,
+      pivotTable,
+      morphType,
+      foreignKey,
+      relatedKey,
+      withPivot,
+      pivotTimestamps,
+    });
+  }
+
+  /**
+   * Distant relation through an intermediate model, e.g. a country's posts through its users
+   *
+   * @example
+   * ```typescript
+   * Country.hasManyThrough({ model: Post, through: User, as: 'posts' }); // users.country_id, posts.user_id
+   * ```
+   */
+  static hasManyThrough({
+    model,
+    through,
+    firstKey,
+    secondKey,
+    localKey,
+    secondLocalKey,
+    as,
+  }: {
+    model: typeof BaseModel;
+    through: typeof BaseModel;
+    firstKey?: string;
+    secondKey?: string;
+    localKey?: string;
+    secondLocalKey?: string;
+    as?: string;
+  }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.HAS_MANY_THROUGH,
+      model,
+      through,
+      firstKey,
+      secondKey,
+      localKey,
+      secondLocalKey,
+    });
+  }
+
+  /**
+   * Single record through an intermediate model, e.g. a mechanic's car owner through the car
+   */
+  static hasOneThrough({
+    model,
+    through,
+    firstKey,
+    secondKey,
+    localKey,
+    secondLocalKey,
+    as,
+  }: {
+    model: typeof BaseModel;
+    through: typeof BaseModel;
+    firstKey?: string;
+    secondKey?: string;
+    localKey?: string;
+    secondLocalKey?: string;
+    as?: string;
+  }): void {
+    this.addRelation(as || model.name, {
+      type: RelationType.HAS_ONE_THROUGH,
+      model,
+      through,
+      firstKey,
+      secondKey,
+      localKey,
+      secondLocalKey,
+    });
+  }
+
+  /**
+   * Map the type strings stored in morph type columns to model classes. Without an
+   * entry a model is stored under its class name.
+   *
+   * @example
+   * ```typescript
+   * BaseModel.morphMap({ post: Post, video: Video });
+   * ```
+   */
+  static morphMap(map: Record<string, typeof BaseModel>): void {
+    Object.assign(morphTypes, map);
+  }
+
+  /**
+   * Type string stored for this model in morph type columns
+   */
+  static getMorphClass(): string {
+    return Object.keys(morphTypes).find((type) => morphTypes[type] === this) ?? this.name;
+  }
+
+  /**
+   * Model class of a morph type string
+   */
+  static getMorphedModel(type: string): typeof BaseModel {
+    const model = morphTypes[type] || morphedModels.get(type);
+    if (!model) {
+      throw new Error(`No model registered for morph type ${type}. Add it with BaseModel.morphMap()`);
+    }
+    return model;
+  }
+
+  async load<T extends BaseModel>(this: T, relations: string[]): Promise<T> {
+    for (const relation of relations) {
+      if ((this.constructor as typeof BaseModel).relations[relation]) {
+        await this.loadRelation(relation);
+      }
+    }
+    return this;
+  }
+
+  protected async loadRelation(relationName: string): Promise<void> {
+    const relation = (this.constructor as typeof BaseModel).relations[relationName];
+    if (!relation) return;
+
+    if (relation.type === RelationType.MORPH_TO) {
+      const { morphType } = this.getMorphColumns(relation);
+      this[relationName] = this.getAttribute(morphType) ? await this.related(relationName).first() : null;
+      return;
+    }
+
+    const primaryKey = this.primaryKey;
+    const relationModel = this.newModelInstance(this.getRelatedModel(relation));
+
+    switch (relation.type) {
+      case RelationType.HAS_ONE:
+        const foreignKey = relation.foreignKey || `${this.constructor.name.toLowerCase()}_id`;
+        const localKey = relation.localKey || primaryKey;
+        this[relationName] = await relationModel.where(foreignKey, this[localKey]).first();
+        break;
+
+      case RelationType.HAS_MANY:
+        const manyForeignKey = relation.foreignKey || `${this.constructor.name.toLowerCase()}_id`;
+        const manyLocalKey = relation.localKey || primaryKey;
+        this[relationName] = await relationModel.where(manyForeignKey, this[manyLocalKey]).get();
+        break;
+
+      case RelationType.BELONGS_TO:
+        const belongsToForeignKey = relation.foreignKey || `${this.getRelatedModel(relation).name.toLowerCase()}_id`;
+        const ownerKey = relation.localKey || relationModel.primaryKey;
+        this[relationName] = await relationModel.find(this[belongsToForeignKey], ownerKey);
+        break;
+
+      case RelationType.MORPH_ONE:
+      case RelationType.HAS_ONE_THROUGH:
+        this[relationName] = await this.related(relationName).first();
+        break;
+
+      case RelationType.HAS_MANY_THROUGH:
+        this[relationName] = await this.related(relationName).get();
+        break;
+
+      case RelationType.BELONGS_TO_MANY:
+      case RelationType.MORPH_MANY:
+      case RelationType.MORPH_TO_MANY:
+        this[relationName] = await this.related(relationName).get();
+        break;
+    }
+  }
+
+  /**
+   * Query of the records related to this instance. It also writes through the
+   * relation: create(), createMany() and save(model) for hasOne, hasMany and
+   * belongsToMany, associate() and dissociate() for belongsTo.
+   *
+   * @example
+   * ```typescript
+   * const published = await post.related('comments').where('approved', 1).get();
+   * const admins = await user.related('roles').wherePivot('active', 1).get();
+   * const post = await user.related('posts').create({ title: 'Hello' }); // sets user_id
+   * ```
+   */
+  related<M extends BaseModel = BaseModel>(relationName: string): M {
+    const relation = this.getRelation(relationName);
+    if (relation.type === RelationType.MORPH_TO) {
+      // The related model is the one named by this record's type column
+      const { morphType, foreignKey } = this.getMorphColumns(relation);
+      const type = this.getAttribute(morphType);
+      if (!type) {
+        // Nothing to query yet, but associate() can still set the columns
+        const query = this.newModelInstance<M>(BaseModel);
+        query.relationParent = { model: this, name: relationName, relation };
+        return query;
+      }
+
+      const query = this.newModelInstance<M>(BaseModel.getMorphedModel(type));
+      query.relationParent = { model: this, name: relationName, relation };
+      return query.where(query.qualifyColumn(relation.localKey || query.primaryKey), this.getAttribute(foreignKey));
+    }
+
+    const query = this.newRelationQuery(relation) as M;
+    const keys = this.getRelationKeys(relation, query);
+    query.relationParent = { model: this, name: relationName, relation };
+    if (keys.morphType) {
+      query.where(keys.morphType.column, keys.morphType.value);
+    }
+
+    const parentColumn = keys.parentColumn.slice(this.table.length + 1);
+    return query.where(keys.relatedColumn, this.getAttribute(parentColumn));
+  }
+
+  /**
+   * RELATED WRITES
+   *
+   * On a query from related(), records are linked to the parent with the same key
+   * defaults as eager loading. They run on the parent's transaction when there is one.
+   */
+
+  /**
+   * Insert a record linked to the parent; belongsToMany relations also attach it
+   *
+   * @example
+   * ```typescript
+   * const post = await user.related('posts').create({ title: 'Hello' });
+   * const role = await user.related('roles').create({ name: 'editor' }, { level: 'member' });
+   * ```
+   */
+  async create(attributes: Record<string, any>, pivotAttributes: Record<string, any> = {}): Promise<this> {
+    this.getRelationParent("create");
+    return this.saveRelated(this.newQuery().fill(attributes), pivotAttributes);
+  }
+
+  /**
+   * create() for several records, in order
+   */
+  async createMany(rows: Record<string, any>[], pivotAttributes: Record<string, any> = {}): Promise<this[]> {
+    const created: this[] = [];
+    for (const attributes of rows) {
+      created.push(await this.create(attributes, pivotAttributes));
+    }
+    return created;
+  }
+
+  /**
+   * Link a model to the parent, then insert or update it. Backs save(model).
+   */
+  protected async saveRelated<M extends BaseModel>(model: M, pivotAttributes: Record<string, any>): Promise<M> {
+    const { relation } = this.getRelationParent("save");
+
+    if (relation.type === RelationType.BELONGS_TO_MANY || relation.type === RelationType.MORPH_TO_MANY) {
+      const inserting = !model.exists;
+      await model.save();
+      if (inserting) {
+        await this.attach(model, pivotAttributes);
+      } else {
+        await this.syncWithoutDetaching({ [model.getKey()]: pivotAttributes });
+      }
+      return model;
+    }
+
+    model.fill(this.getRelatedOwnerAttributes());
+    await model.save();
+    return model;
+  }
+
+  /**
+   * Point the parent's belongsTo (or morphTo) columns at a model or key. The parent
+   * isn't saved; it is returned for chaining.
+   *
+   * @example
+   * ```typescript
+   * await post.related('author').associate(user).save();
+   * ```
+   */
+  associate(model: BaseModel | string | number): BaseModel {
+    const { model: parent, name, relation } = this.getRelationParent("associate");
+
+    if (relation.type === RelationType.BELONGS_TO) {
+      const foreignKey = relation.foreignKey || `${parent.getRelatedModel(relation).name.toLowerCase()}_id`;
+      const ownerKey = relation.localKey || this.primaryKey;
+      parent.setAttribute(foreignKey, model instanceof BaseModel ? model.getAttribute(ownerKey) : model);
+    } else if (relation.type === RelationType.MORPH_TO) {
+      if (!(model instanceof BaseModel)) {
+        throw new Error(`associate() on the morphTo relation ${name} expects a model`);
+      }
+      const { morphType, foreignKey } = parent.getMorphColumns(relation);
+      parent.setAttribute(morphType, (model.constructor as typeof BaseModel).getMorphClass());
+      parent.setAttribute(foreignKey, model.getAttribute(relation.localKey || model.primaryKey));
+    } else {
+      throw new Error(`associate() expects a belongsTo or morphTo relation, ${name} is ${relation.type}`);
+    }
+
+    // Keep a loaded relation in step with the new key
+    if (model instanceof BaseModel) {
+      parent[name] = model;
+    } else {
+      delete parent[name];
+    }
+    return parent;
+  }
+
+  /**
+   * Clear the parent's belongsTo (or morphTo) columns. The parent isn't saved.
+   */
+  dissociate(): BaseModel {
+    const { model: parent, name, relation } = this.getRelationParent("dissociate");
+
+    if (relation.type === RelationType.BELONGS_TO) {
+      parent.setAttribute(relation.foreignKey || `${parent.getRelatedModel(relation).name.toLowerCase()}_id`, null);
+    } else if (relation.type === RelationType.MORPH_TO) {
+      const { morphType, foreignKey } = parent.getMorphColumns(relation);
+      parent.setAttribute(morphType, null);
+      parent.setAttribute(foreignKey, null);
+    } else {
+      throw new Error(`dissociate() expects a belongsTo or morphTo relation, ${name} is ${relation.type}`);
+    }
+
+    parent[name] = null;
+    return parent;
+  }
+
+  protected getRelationParent(method: string): { model: BaseModel; name: string; relation: Relation } {
+    if (!this.relationParent) {
+      throw new Error(`${method}() of related records needs a query from related()`);
+    }
+    return this.relationParent;
+  }
+
+  /**
+   * Columns linking a hasOne, hasMany, morphOne or morphMany record to the parent
+   */
+  protected getRelatedOwnerAttributes(): Record<string, any> {
+    const { model: parent, name, relation } = this.getRelationParent("save");
+
+    let attributes: Record<string, any>;
+    switch (relation.type) {
+      case RelationType.HAS_ONE:
+      case RelationType.HAS_MANY: {
+        const foreignKey = relation.foreignKey || `${parent.constructor.name.toLowerCase()}_id`;
+        attributes = { [foreignKey]: parent.getAttribute(relation.localKey || parent.primaryKey) };
+        break;
+      }
+
+      case RelationType.MORPH_ONE:
+      case RelationType.MORPH_MANY: {
+        const { morphType, foreignKey } = parent.getMorphColumns(relation);
+        attributes = {
+          [foreignKey]: parent.getAttribute(relation.localKey || parent.primaryKey),
+          [morphType]: (parent.constructor as typeof BaseModel).getMorphClass(),
+        };
+        break;
+      }
+
+      default:
+        throw new Error(`Cannot create or save records through the ${relation.type} relation ${name}`);
+    }
+
+    if (Object.values(attributes).some((value) => value === undefined || value === null)) {
+      throw new Error(`Cannot save ${name} of a ${parent.constructor.name} without a key; save it first`);
+    }
+    return attributes;
+  }
+
+  /**
+   * PIVOT TABLES
+   *
+   * belongsToMany queries select the related key columns of the pivot table, plus
+   * the columns given to withPivot(), under `pivot` on each record. On a query from
+   * related(), attach(), detach(), sync() and toggle() write the pivot rows.
+   */
+
+  /**
+   * Load extra pivot columns under `pivot`
+   */
+  withPivot(columns: string | string[]): this {
+    this.getPivotContext().columns.push(...(Array.isArray(columns) ? columns : [columns]));
+    return this;
+  }
+
+  /**
+   * Filter by a column of the pivot table
+   */
+  wherePivot(column: string, ...args: any[]): this {
+    return this.where(`${this.getPivotContext().table}.${column}`, ...args);
+  }
+
+  orWherePivot(column: string, value: any, operator: string = "="): this {
+    return this.orWhere(`${this.getPivotContext().table}.${column}`, value, operator);
+  }
+
+  /**
+   * Insert pivot rows for the given related records
+   *
+   * @example
+   * ```typescript
+   * await user.related('roles').attach(1);
+   * await user.related('roles').attach([1, 2], { expires_at: null });
+   * await user.related('roles').attach({ 1: { level: 'owner' }, 2: { level: 'member' } });
+   * ```
+   */
+  async attach(ids: PivotIds, attributes: Record<string, any> = {}): Promise<void> {
+    const records = this.parsePivotIds(ids).map(({ id, attributes: own }) => ({ id, attributes: { ...attributes, ...own } }));
+    await this.insertPivotRows(records);
+  }
+
+  /**
+   * Delete the pivot rows of the given related records, or all of them. Returns the number deleted.
+   */
+  async detach(ids?: PivotIds): Promise<number> {
+    const { model, pivot, owner } = this.getPivotParent();
+    const dialect = model.getDialect();
+    const base = `DELETE FROM ${this.wrap(pivot.table)} WHERE ${this.compilePivotOwner(owner)}`;
+
+    if (ids === undefined) {
+      return dialect.getAffectedRows(await model.executeStatement(base, Object.values(owner)));
+    }
+
+    const keys = this.parsePivotIds(ids).map(({ id }) => id);
+    let deleted = 0;
+    const size = dialect.maxParameters - Object.keys(owner).length;
+    for (let i = 0; i < keys.length; i += size) {
+      const batch = keys.slice(i, i + size);
+      const sql = `${base} AND ${this.wrap(pivot.relatedKey)} IN (${batch.map(() => "?").join(", ")})`;
+      deleted += dialect.getAffectedRows(await model.executeStatement(sql, [...Object.values(owner), ...batch]));
+    }
+    return deleted;
+  }
+
+  /**
+   * Make the given related records the only attached ones. Records already attached
+   * get their pivot attributes updated; `{ detaching: false }` keeps the others.
+   *
+   * @example
+   * ```typescript
+   * const { attached, detached } = await user.related('roles').sync([1, 2, 3]);
+   * await user.related('roles').sync({ 1: { level: 'owner' } });
+   * ```
+   */
+  async sync(ids: PivotIds, options: { detaching?: boolean } = {}): Promise<SyncResult> {
+    // All or nothing: a failure must not leave the pivot table half synced
+    const { model } = this.getPivotParent();
+    return model.runInTransaction(async () => {
+      const records = this.parsePivotIds(ids);
+      const current = await this.getPivotRelatedKeys();
+      const currentKeys = new Set(current.map(String));
+      const wanted = new Set(records.map(({ id }) => String(id)));
+
+      const detached = options.detaching === false ? [] : current.filter((id) => !wanted.has(String(id)));
+      if (detached.length > 0) {
+        await this.detach(detached);
+      }
+
+      const attaching = records.filter(({ id }) => !currentKeys.has(String(id)));
+      await this.insertPivotRows(attaching);
+
+      const updated: any[] = [];
+      for (const { id, attributes } of records) {
+        if (currentKeys.has(String(id)) && Object.keys(attributes).length > 0 && (await this.updatePivotRow(id, attributes)) > 0) {
+          updated.push(id);
+        }
+      }
+
+      return { attached: attaching.map(({ id }) => id), detached, updated };
+    });
+  }
+
+  /**
+   * Attach the given related records and update the pivot attributes of attached ones, detaching none
+   */
+  async syncWithoutDetaching(ids: PivotIds): Promise<SyncResult> {
+    return this.sync(ids, { detaching: false });
+  }
+
+  /**
+   * Detach the given related records that are attached and attach the others
+   */
+  async toggle(ids: PivotIds, attributes: Record<string, any> = {}): Promise<{ attached: any[]; detached: any[] }> {
+    // All or nothing, like sync()
+    const { model } = this.getPivotParent();
+    return model.runInTransaction(async () => {
+      const records = this.parsePivotIds(ids);
+      const currentKeys = new Set((await this.getPivotRelatedKeys()).map(String));
+
+      const detached = records.filter(({ id }) => currentKeys.has(String(id))).map(({ id }) => id);
+      if (detached.length > 0) {
+        await this.detach(detached);
+      }
+
+      const attaching = records
+        .filter(({ id }) => !currentKeys.has(String(id)))
+        .map(({ id, attributes: own }) => ({ id, attributes: { ...attributes, ...own } }));
+      await this.insertPivotRows(attaching);
+
+      return { attached: attaching.map(({ id }) => id), detached };
+    });
+  }
+
+  protected getPivotContext(): NonNullable<BaseModel["pivotContext"]> {
+    if (!this.pivotContext) {
+      throw new Error(`${this.constructor.name} query is not a belongsToMany or morphToMany relation query`);
     }
+    return this.pivotContext;
   }
+
   /**
-   * OR WHERE clause with group support
+   * The record a related() belongsToMany query belongs to, and the pivot columns
+   * identifying it: its key, plus its morph type for morphToMany
    */
-  orWhere(field: string, value: any, operator: string = "="): this {
-    if (value === null) return this.whereRaw(`${field} IS NULL`);
+  protected getPivotParent(): {
+    model: BaseModel;
+    relation: Relation;
+    pivot: NonNullable<BaseModel["pivotContext"]>;
+    owner: Record<string, any>;
+  } {
+    const pivot = this.getPivotContext();
+    if (!this.relationParent) {
+      throw new Error("Pivot rows can only be written on a query from related()");
+    }
 
-    const condition: WhereCondition = {
-      field,
-      value,
-      operator,
-      group_level: this.whereGroupLevel,
-    };
+    const { model, relation } = this.relationParent;
+    const parentKey = model.getKey();
+    if (parentKey === undefined || parentKey === null) {
+      throw new Error(`Cannot write pivot rows of a ${model.constructor.name} without a ${model.primaryKey}`);
+    }
 
-    if (this.whereGroupLevel > 0) {
-      this.whereGroupConditions.push(condition);
-    } else {
-      this.whereOrConditions.push(condition);
+    const owner: Record<string, any> = { [pivot.foreignKey]: parentKey };
+    if (pivot.morphType) {
+      owner[pivot.morphType.column] = pivot.morphType.value;
     }
+    return { model, relation, pivot, owner };
+  }
 
-    return this;
+  protected compilePivotOwner(owner: Record<string, any>): string {
+    return Object.keys(owner)
+      .map((column) => `${this.wrap(column)} = ?`)
+      .join(" AND ");
   }
 
   /**
-   * Execute query with WHERE conditions
+   * Normalize pivot write arguments to related keys with their pivot attributes
    */
-  protected async executeWhereQuery<T = any>(): Promise<T[]> {
-    let sql = "SELECT ";
-
-    // Handle SELECT SUM if specified
-    if (Object.keys(this.selectSumFields).length > 0) {
-      const sumFields = Object.entries(this.selectSumFields).map(([field, alias]) => `SUM(${field}) AS ${alias}`);
-      sql += sumFields.join(", ");
-      this.selectSumFields = {};
+  protected parsePivotIds(ids: PivotIds): { id: any; attributes: Record<string, any> }[] {
+    let records: { id: any; attributes: Record<string, any> }[];
+    if (Array.isArray(ids)) {
+      records = ids.map((id) => ({ id: id instanceof BaseModel ? id.getKey() : id, attributes: {} }));
+    } else if (ids instanceof BaseModel) {
+      records = [{ id: ids.getKey(), attributes: {} }];
+    } else if (ids !== null && typeof ids === "object") {
+      // Object keys are strings; numeric ones go back to numbers
+      records = Object.entries(ids).map(([id, attributes]) => ({ id: String(Number(id)) === id ? Number(id) : id, attributes: { ...attributes } }));
     } else {
-      sql += "*";
+      records = [{ id: ids, attributes: {} }];
     }
 
-    sql += ` FROM ${this.table}`;
-    const values: any[] = [];
-
-    // Process all WHERE conditions
-    const whereClauses = this.buildWhereClauses();
-
-    // Combine WHERE clauses if any exist
-    if (whereClauses.sql) {
-      sql += ` WHERE ${whereClauses.sql}`;
-      values.push(...whereClauses.params);
+    // The last entry for a key wins
+    const unique = new Map<string, { id: any; attributes: Record<string, any> }>();
+    for (const record of records) {
+      unique.set(String(record.id), record);
     }
+    return [...unique.values()];
+  }
 
-    // ORDER BY clauses
-    if (this.orderByConditions.length > 0) {
-      const orderClauses = this.orderByConditions.map((order) => `${order.field} ${order.direction}`);
-      sql += ` ORDER BY ${orderClauses.join(", ")}`;
+  /**
+   * Related keys currently attached to the parent record
+   */
+  protected async getPivotRelatedKeys(): Promise<any[]> {
+    const { model, pivot, owner } = this.getPivotParent();
+    const sql = `SELECT ${this.wrap(pivot.relatedKey)} FROM ${this.wrap(pivot.table)} WHERE ${this.compilePivotOwner(owner)}`;
+    const rows = await model.executeQuery(sql, Object.values(owner));
+    return rows.map((row: Record<string, any>) => row[pivot.relatedKey]);
+  }
+
+  protected async insertPivotRows(records: { id: any; attributes: Record<string, any> }[]): Promise<void> {
+    const { model, relation, pivot, owner } = this.getPivotParent();
+    const dialect = model.getDialect();
+
+    // Rows with different attributes go into separate statements
+    const groups = new Map<string, { columns: string[]; rows: Record<string, any>[] }>();
+    for (const { id, attributes } of records) {
+      const row: Record<string, any> = { ...attributes, ...owner, [pivot.relatedKey]: id };
+      this.setPivotTimestamps(model, relation, row, false);
+      const columns = Object.keys(row).sort();
+      const key = JSON.stringify(columns);
+      if (!groups.has(key)) groups.set(key, { columns, rows: [] });
+      groups.get(key)!.rows.push(row);
     }
 
-    // LIMIT/OFFSET clauses
-    if (this._limit !== null) {
-      sql += ` LIMIT ${this._limit}`;
-      if (this.offset && this.offset > 0) {
-        sql += ` OFFSET ${this.offset}`;
+    for (const { columns, rows } of groups.values()) {
+      const size = Math.max(1, Math.floor(dialect.maxParameters / columns.length));
+      for (let i = 0; i < rows.length; i += size) {
+        const batch = rows.slice(i, i + size);
+        const params = batch.flatMap((row) => columns.map((column) => row[column]));
+        await model.executeStatement(dialect.compileInsert(pivot.table, columns, batch.length), params);
       }
     }
+  }
 
-    // Reset conditions
-    this.resetQuery();
+  protected async updatePivotRow(id: any, attributes: Record<string, any>): Promise<number> {
+    const { model, relation, pivot, owner } = this.getPivotParent();
+    const data = { ...attributes };
+    this.setPivotTimestamps(model, relation, data, true);
 
-    const rows = await this.executeQuery(sql, values);
-    return rows as T[];
+    const assignments = Object.keys(data).map((column) => `${this.wrap(column)} = ?`);
+    const sql = `UPDATE ${this.wrap(pivot.table)} SET ${assignments.join(", ")} WHERE ${this.compilePivotOwner(owner)} AND ${this.wrap(
+      pivot.relatedKey
+    )} = ?`;
+    return model.getDialect().getAffectedRows(await model.executeStatement(sql, [...Object.values(data), ...Object.values(owner), id]));
   }
 
   /**
-   * Process grouped conditions
+   * Set the parent model's timestamp columns on a pivot row, unless the relation opts out
    */
-  protected processGroupedConditions(): { clauses: string; values: any[] } {
-    const grouped: string[] = [];
-    const currentGroup: Record<number, string[]> = {};
-    const values: any[] = [];
-    let currentLevel = 0;
-
-    this.whereGroupConditions.forEach((condition) => {
-      if (condition.group_level! > currentLevel) {
-        // Start new group
-        currentLevel = condition.group_level!;
-        currentGroup[currentLevel] = [];
-      } else if (condition.group_level! < currentLevel) {
-        // End current group
-        if (currentGroup[currentLevel]?.length) {
-          grouped.push(`(${currentGroup[currentLevel].join(" AND ")})`);
+  protected setPivotTimestamps(parent: BaseModel, relation: Relation, row: Record<string, any>, isUpdate: boolean): void {
+    const { timestamps, createdAt, updatedAt } = (parent.constructor as typeof BaseModel).config;
+    if (!(relation.pivotTimestamps ?? timestamps)) return;
+
+    const now = new Date();
+    if (!isUpdate && createdAt) {
+      row[createdAt] = now;
+    }
+    if (updatedAt) {
+      row[updatedAt] = now;
+    }
+  }
+
+  /**
+   * MODEL INSTANCES
+   *
+   * Query results are instances of the model. Their columns are readable and
+   * writable as properties (`user.name = 'Bob'`) unless the name is taken by a
+   * model member, in which case getAttribute()/setAttribute() reach them.
+   */
+
+  /**
+   * Turn result rows into model instances on the same connection
+   */
+  protected hydrate(rows: Record<string, any>[]): any[] {
+    return rows.map((row) => {
+      const model = this.newQuery();
+      if (this.pivotContext) {
+        // Move the pivot_* columns of belongsToMany queries under `pivot`
+        const { foreignKey, relatedKey, columns } = this.pivotContext;
+        row = { ...row };
+        model.pivot = {};
+        for (const column of [foreignKey, relatedKey, ...columns]) {
+          model.pivot[column] = row[`pivot_${column}`];
+          delete row[`pivot_${column}`];
         }
-        delete currentGroup[currentLevel];
-        currentLevel = condition.group_level!;
       }
-
-      // Add condition to current group
-      currentGroup[currentLevel] = currentGroup[currentLevel] || [];
-      currentGroup[currentLevel].push(`${condition.field} ${condition.operator} ?`);
-      values.push(condition.value);
+      if (this.throughContext) {
+        row = { ...row };
+        delete row.through_key;
+      }
+      model.setRawAttributes(this.castAttributes(row, "get"));
+      model.exists = true;
+      return model;
     });
+  }
 
-    // Add any remaining groups
-    for (let i = currentLevel; i > 0; i--) {
-      if (currentGroup[i]?.length) {
-        grouped.push(`(${currentGroup[i].join(" AND ")})`);
+  /**
+   * Apply the model's casts to the attributes that have one: "get" when reading
+   * from the database, "set" when writing to it
+   */
+  protected castAttributes(attributes: Record<string, any>, direction: "get" | "set"): Record<string, any> {
+    const { casts } = (this.constructor as typeof BaseModel).config;
+    if (!casts) return attributes;
+
+    const resolved = resolveCasts(casts);
+    const result = { ...attributes };
+    for (const key of Object.keys(result)) {
+      if (resolved[key]) {
+        result[key] = resolved[key][direction](result[key], key, attributes);
       }
     }
-
-    return {
-      clauses: grouped.join(" AND "),
-      values,
-    };
+    return result;
   }
 
   /**
-   * Reset all query conditions including groups
+   * A fresh query builder for the model, on the same connection as this instance
    */
-  resetQuery(): void {
-    this.whereConditions = [];
-    this.whereInConditions = [];
-    this.whereOrConditions = [];
-    this.whereConditionsRaw = [];
-    this.whereGroupConditions = [];
-    this.whereGroupLevel = 0;
-    this.orderByConditions = [];
-    this._limit = null;
-    this.offset = null;
-    this.selectSumFields = {};
+  newQuery(): this {
+    return this.newModelInstance<this>(this.constructor as typeof BaseModel);
   }
 
-  limit(limit: number, offset: number = 0): this {
-    this._limit = limit;
-    this.offset = offset;
+  /**
+   * Replace all attributes, marking them as the original (clean) state
+   */
+  protected setRawAttributes(attributes: Record<string, any>): this {
+    this.attributes = { ...attributes };
+    Object.keys(attributes).forEach((key) => this.defineAttributeAccessor(key));
+    this.syncOriginal();
     return this;
   }
 
-  async count(conditions: Record<string, any> = {}): Promise<number> {
-    let sql = `SELECT COUNT(*) as total FROM ${this.table}`;
-    const values: any[] = [];
+  protected defineAttributeAccessor(key: string): void {
+    if (Object.prototype.hasOwnProperty.call(this, key) && this[key] !== undefined) return;
+    if (!Object.prototype.hasOwnProperty.call(this, key) && key in this) return;
 
-    if (Object.keys(conditions).length > 0) {
-      const whereClauses = Object.keys(conditions).map((field) => `${field} = ?`);
-      sql += ` WHERE ${whereClauses.join(" AND ")}`;
-      values.push(...Object.values(conditions));
-    }
+    Object.defineProperty(this, key, {
+      get: () => this.attributes[key],
+      set: (value) => this.setAttribute(key, value),
+      enumerable: true,
+      configurable: true,
+    });
+  }
 
-    const rows = await this.executeQuery(sql, values);
-    return rows[0]?.total ? parseInt(rows[0].total) : 0;
+  getAttribute(key: string): any {
+    return this.attributes[key];
   }
 
-  selectSum(field: string, alias: string | null = null): this {
-    this.selectSumFields[field] = alias || field;
+  setAttribute(key: string, value: any): this {
+    if (!(key in this.attributes)) {
+      this.defineAttributeAccessor(key);
+    }
+    this.attributes[key] = value;
     return this;
   }
+
   /**
-   * TRANSACTION SUPPORT
+   * Set several attributes at once
+   *
+   * @example
+   * ```typescript
+   * const user = new User().fill({ name: 'Alice', email: 'alice@example.com' });
+   * await user.save();
+   * ```
    */
-  static async transaction<T>(callback: (transaction: BaseModel) => Promise<T>): Promise<T> {
-    try {
-      await this.connection.beginTransaction();
-      const result = await callback(new this());
-      await this.connection.commit();
-      return result;
-    } catch (error) {
-      await this.connection.rollback();
-      throw error;
-    } finally {
-      this.connection.release();
-    }
+  fill(attributes: Record<string, any>): this {
+    Object.entries(attributes).forEach(([key, value]) => this.setAttribute(key, value));
+    return this;
+  }
+
+  getAttributes(): Record<string, any> {
+    return { ...this.attributes };
   }
 
   /**
-   * RELATIONSHIPS
+   * Attribute values as they were loaded or last saved
    */
-  static hasOne({ model, foreignKey, localKey, as }: { model: typeof BaseModel; foreignKey?: string; localKey?: string; as?: string }): void {
-    const relationName = as || model.name;
-    this.relations[relationName] = {
-      type: RelationType.HAS_ONE,
-      model,
-      foreignKey,
-      localKey,
-    };
+  getOriginal(): Record<string, any>;
+  getOriginal(key: string): any;
+  getOriginal(key?: string): any {
+    return key === undefined ? { ...this.original } : this.original[key];
   }
 
-  static hasMany({ model, foreignKey, localKey, as }: { model: typeof BaseModel; foreignKey?: string; localKey?: string; as?: string }): void {
-    const relationName = as || model.name;
-    this.relations[relationName] = {
-      type: RelationType.HAS_MANY,
-      model,
-      foreignKey,
-      localKey,
-    };
+  getKey(): any {
+    return this.attributes[this.primaryKey];
   }
 
-  static belongsTo({ model, foreignKey, ownerKey, as }: { model: typeof BaseModel; foreignKey?: string; ownerKey?: string; as?: string }): void {
-    const relationName = as || model.name;
-    this.relations[relationName] = {
-      type: RelationType.BELONGS_TO,
-      model,
-      foreignKey,
-      localKey: ownerKey,
-    };
+  /**
+   * Whether any attribute (or one of the given ones) changed since the record was loaded or saved
+   */
+  isDirty(keys?: string | string[]): boolean {
+    const changes = Object.keys(this.getChanges());
+    if (keys === undefined) return changes.length > 0;
+    return (Array.isArray(keys) ? keys : [keys]).some((key) => changes.includes(key));
   }
 
-  static belongsToMany({
-    model,
-    foreignKey,
-    pivotTable,
-    relatedKey,
-    as,
-  }: {
-    model: typeof BaseModel;
-    pivotTable: string;
-    foreignKey?: string;
-    relatedKey?: string;
-    as?: string;
-  }): void {
-    const relationName = as || model.name;
-    this.relations[relationName] = {
-      type: RelationType.BELONGS_TO_MANY,
-      model,
-      pivotTable,
-      foreignKey,
-      relatedKey,
-    };
+  /**
+   * Attributes changed since the record was loaded or saved
+   */
+  getChanges(): Record<string, any> {
+    const changes: Record<string, any> = {};
+    for (const [key, value] of Object.entries(this.attributes)) {
+      if (!(key in this.original) || !this.attributeEquals(value, this.original[key])) {
+        changes[key] = value;
+      }
+    }
+    return changes;
   }
 
-  async load<T extends BaseModel>(this: T, relations: string[]): Promise<T> {
-    for (const relation of relations) {
-      if ((this.constructor as typeof BaseModel).relations[relation]) {
-        await this.loadRelation(relation);
-      }
+  protected attributeEquals(current: any, original: any): boolean {
+    if (current instanceof Date || original instanceof Date) {
+      return new Date(current).getTime() === new Date(original).getTime();
+    }
+    if (current !== null && original !== null && typeof current === "object" && typeof original === "object") {
+      return JSON.stringify(current) === JSON.stringify(original);
+    }
+    return current === original;
+  }
+
+  /**
+   * Mark the current attributes as the clean state
+   */
+  syncOriginal(): this {
+    this.original = {};
+    for (const [key, value] of Object.entries(this.attributes)) {
+      // Snapshot plain objects and arrays (e.g. json casts) so in-place edits show up as changes
+      const isPlain = Array.isArray(value) || (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype);
+      this.original[key] = isPlain ? JSON.parse(JSON.stringify(value)) : value;
     }
     return this;
   }
 
-  protected async loadRelation(relationName: string): Promise<void> {
-    const relation = (this.constructor as typeof BaseModel).relations[relationName];
-    if (!relation) return;
+  /**
+   * Set attributes that were just written to the database, keeping them clean
+   */
+  protected syncAttributes(attributes: Record<string, any>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+      this.original[key] = value;
+    }
+  }
 
-    const primaryKey = this.primaryKey;
-    const relationModel = new relation.model();
+  /**
+   * INSERT the record, or UPDATE its changed columns when it already exists
+   *
+   * @example
+   * ```typescript
+   * const user = await new User().find(1);
+   * user.name = 'Bob';
+   * await user.save(); // UPDATE users SET name = ?, updated_at = ? WHERE id = ?
+   * ```
+   */
+  async save(): Promise<boolean>;
+  async save<M extends BaseModel>(model: M, pivotAttributes?: Record<string, any>): Promise<M>;
+  async save(model?: BaseModel, pivotAttributes: Record<string, any> = {}): Promise<any> {
+    if (model !== undefined) {
+      // save(model) on a query from related()
+      return this.saveRelated(model, pivotAttributes);
+    }
 
-    switch (relation.type) {
-      case RelationType.HAS_ONE:
-        const foreignKey = relation.foreignKey || `${this.constructor.name.toLowerCase()}_id`;
-        const localKey = relation.localKey || primaryKey;
-        this[relationName] = await relationModel.where(foreignKey, this[localKey]).first();
-        break;
+    if (!this.exists) {
+      const data = { ...this.attributes };
+      const insertedId = await this.writeSelf(() => this.insert(data));
+      this.syncAttributes({ ...this.filterAllowedFields(data), [this.primaryKey]: data[this.primaryKey] ?? insertedId });
+      this.syncOriginal();
+      this.exists = true;
+      return true;
+    }
 
-      case RelationType.HAS_MANY:
-        const manyForeignKey = relation.foreignKey || `${this.constructor.name.toLowerCase()}_id`;
-        const manyLocalKey = relation.localKey || primaryKey;
-        this[relationName] = await relationModel.where(manyForeignKey, this[manyLocalKey]).get();
-        break;
+    const changes = this.getChanges();
+    if (Object.keys(changes).length === 0) return true;
 
-      case RelationType.BELONGS_TO:
-        const belongsToForeignKey = relation.foreignKey || `${relation.model.name.toLowerCase()}_id`;
-        const ownerKey = relation.localKey || relationModel.primaryKey;
-        this[relationName] = await relationModel.find(this[belongsToForeignKey], ownerKey);
-        break;
+    const data = { ...changes };
+    const result = await this.writeSelf(() => this.withoutScopesApplied(() => this.update(this.original[this.primaryKey] ?? this.getKey(), data)));
+    this.syncAttributes(this.filterAllowedFields(data));
+    this.syncOriginal();
+    return result;
+  }
 
-      case RelationType.BELONGS_TO_MANY:
-        const pivotTable = relation.pivotTable || `${this.constructor.name.toLowerCase()}_${relation.model.name.toLowerCase()}`;
-        const currentForeignKey = relation.foreignKey || `${this.constructor.name.toLowerCase()}_id`;
-        const relatedKey = relation.relatedKey || `${relation.model.name.toLowerCase()}_id`;
+  /**
+   * Reload the attributes from the database
+   */
+  async refresh(): Promise<this> {
+    if (!this.exists) {
+      throw new Error(`Cannot refresh a ${this.constructor.name} that has not been saved`);
+    }
 
-        const pivotQuery = `SELECT ${relatedKey} FROM ${pivotTable} WHERE ${currentForeignKey} = ?`;
-        const pivotRows = await this.executeQuery(pivotQuery, [this[primaryKey]]);
+    const fresh = await this.newQuery().withoutGlobalScopes().find<BaseModel>(this.getKey());
+    if (!fresh) {
+      throw new Error(`${this.constructor.name} ${this.getKey()} no longer exists`);
+    }
 
-        interface PivotRow {
-          [key: string]: any;
-        }
+    this.setRawAttributes(fresh.getAttributes());
+    return this;
+  }
 
-        const relatedIds: (number | string)[] = (pivotRows as PivotRow[]).map((row: PivotRow) => row[relatedKey]);
-        if (relatedIds.length > 0) {
-          this[relationName] = await relationModel.whereIn(relationModel.primaryKey, relatedIds).get();
-        } else {
-          this[relationName] = [];
-        }
-        break;
+  /**
+   * Attributes and loaded relations, for JSON.stringify(). Bigints become strings,
+   * which JSON.stringify() cannot serialize otherwise.
+   */
+  toJSON(): Record<string, any> {
+    const json: Record<string, any> = {};
+    for (const [key, value] of Object.entries(this.attributes)) {
+      json[key] = typeof value === "bigint" ? value.toString() : value;
     }
+    for (const name of Object.keys((this.constructor as typeof BaseModel).relations)) {
+      if (Object.prototype.hasOwnProperty.call(this, name) && !(name in this.attributes)) {
+        json[name] = this[name];
+      }
+    }
+    if (this.pivot) {
+      json.pivot = this.pivot;
+    }
+    return json;
   }
 
   /**
@@ -980,7 +3184,9 @@ export class BaseModel {
 
     const deletedAt = (this.constructor as typeof BaseModel).config.deletedAt;
     if (!deletedAt) throw new Error("DeletedAt field not configured for soft deletes");
-    const result = await this.update(this[this.primaryKey], { [deletedAt]: new Date() });
+    const value = new Date();
+    const result = await this.writeSelf(() => this.withoutScopesApplied(() => this.update(this.getKey(), { [deletedAt]: value })));
+    this.syncAttributes({ [deletedAt]: value });
     return result;
   }
 
@@ -991,19 +3197,22 @@ export class BaseModel {
 
     const deletedAt = (this.constructor as typeof BaseModel).config.deletedAt;
     if (!deletedAt) throw new Error("DeletedAt field not configured for soft deletes");
-    const result = await this.update(this[this.primaryKey], { [deletedAt]: null });
+    const result = await this.writeSelf(() => this.withoutScopesApplied(() => this.update(this.getKey(), { [deletedAt]: null })));
+    this.syncAttributes({ [deletedAt]: null });
     return result;
   }
 
   async forceDelete(): Promise<boolean> {
-    return this.delete(this[this.primaryKey]);
+    const result = await this.writeSelf(() => this.withoutScopesApplied(() => this.delete(this.getKey())));
+    this.exists = false;
+    return result;
   }
 
   withTrashed(): this {
     if (!(this.constructor as typeof BaseModel).config.softDeletes) {
       throw new Error("Soft deletes not enabled for this model");
     }
-    return this;
+    return this.withoutGlobalScope(SOFT_DELETES_SCOPE);
   }
 
   onlyTrashed(): this {
@@ -1012,7 +3221,7 @@ export class BaseModel {
     }
     const deletedAt = (this.constructor as typeof BaseModel).config.deletedAt;
     if (!deletedAt) throw new Error("DeletedAt field not configured for soft deletes");
-    return this.whereNotNull(deletedAt);
+    return this.withoutGlobalScope(SOFT_DELETES_SCOPE).whereNotNull(this.qualifyColumn(deletedAt));
   }
 
   /**
@@ -1069,6 +3278,99 @@ export class BaseModel {
     };
   }
 
+  /**
+   * Keyset pagination: seeks past the last row of the previous page instead of
+   * counting and skipping rows. Pages follow orderBy() with the primary key as a
+   * tiebreaker; the ordering columns should not be nullable.
+   *
+   * @example
+   * ```typescript
+   * const page = await new Post().orderBy('created_at', 'DESC').cursorPaginate(20, req.query.cursor);
+   * // page.nextCursor / page.prevCursor go back in as the cursor argument
+   * ```
+   */
+  async cursorPaginate<T = any>(perPage: number, cursor?: string | null): Promise<CursorPaginatedResult<T>> {
+    const orders = [...this.orderByConditions];
+    const keyColumn = this.qualifyColumn(this.primaryKey);
+    if (!orders.some((order) => this.qualifyColumn(order.field) === keyColumn)) {
+      orders.push({ field: this.primaryKey, direction: "ASC" });
+    }
+
+    const decoded = cursor ? this.decodeCursor(cursor, orders) : null;
+    const backwards = decoded?.direction === "prev";
+
+    if (decoded) {
+      const values = this.castAttributes(decoded.values, "set");
+      this.wrapWhereConditions().whereGroup((query) => {
+        orders.forEach((order, index) => {
+          query.orWhereGroup((group) => {
+            orders.slice(0, index).forEach((previous) => group.where(previous.field, values[this.cursorKey(previous.field)]));
+            // Rows after the cursor in the page direction
+            const ascending = (order.direction === "ASC") !== backwards;
+            group.where(order.field, ascending ? ">" : "<", values[this.cursorKey(order.field)]);
+          });
+        });
+      });
+    }
+
+    this.orderByConditions = backwards ? orders.map((order) => ({ ...order, direction: order.direction === "ASC" ? "DESC" : "ASC" })) : orders;
+    const rows = await this.limit(perPage + 1).get<T>();
+    const hasMore = rows.length > perPage;
+    const data = rows.slice(0, perPage);
+    if (backwards) data.reverse();
+
+    const first = data[0];
+    const last = data[data.length - 1];
+    return {
+      data,
+      perPage,
+      nextCursor: last && (backwards || hasMore) ? this.encodeCursor(last, orders, "next") : null,
+      prevCursor: first && (backwards ? hasMore : decoded !== null) ? this.encodeCursor(first, orders, "prev") : null,
+    };
+  }
+
+  /**
+   * Attribute holding the value of an ordering column
+   */
+  protected cursorKey(field: string): string {
+    return field.split(".").pop()!;
+  }
+
+  protected encodeCursor(row: any, orders: OrderByCondition[], direction: "next" | "prev"): string {
+    const attributes = row instanceof BaseModel ? row.getAttributes() : row;
+    const values: Record<string, any> = {};
+    for (const order of orders) {
+      const value = attributes[this.cursorKey(order.field)];
+      // Tagged so decodeCursor() hands back a Date, which the dialect formats for binding
+      values[this.cursorKey(order.field)] = value instanceof Date ? { $date: value.toISOString() } : value;
+    }
+    return Buffer.from(JSON.stringify({ direction, values })).toString("base64url");
+  }
+
+  protected decodeCursor(cursor: string, orders: OrderByCondition[]): { direction: "next" | "prev"; values: Record<string, any> } {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new Error("Invalid cursor");
+    }
+
+    const valid =
+      (decoded?.direction === "next" || decoded?.direction === "prev") &&
+      decoded.values &&
+      orders.every((order) => this.cursorKey(order.field) in decoded.values);
+    if (!valid) {
+      throw new Error("Invalid cursor for this query ordering");
+    }
+
+    for (const [key, value] of Object.entries(decoded.values as Record<string, any>)) {
+      if (value !== null && typeof value === "object" && typeof value.$date === "string") {
+        decoded.values[key] = new Date(value.$date);
+      }
+    }
+    return decoded;
+  }
+
   /**
    * VALIDATION HOOKS
    */
@@ -1076,27 +3378,69 @@ export class BaseModel {
     // To be implemented by child classes
   }
 
-  protected async beforeCreate(data: Record<string, any>): Promise<void> {
+  /**
+   * Run a lifecycle hook on the record being written: the overridable method, then the
+   * methods registered with its decorator. Create and update hooks receive the data
+   * being written and the record, delete hooks the record; `this` is the record too.
+   */
+  protected async runHook(hook: ModelHook, record: BaseModel, data?: Record<string, any>): Promise<void> {
+    const args = data === undefined ? [record] : [data, record];
+    const run = (method: string) => record[method](...args);
+    await run(hook);
+
+    for (const method of (this.constructor as typeof BaseModel).hooks[hook] || []) {
+      if (method !== hook) {
+        await run(method);
+      }
+    }
+  }
+
+  /**
+   * The record lifecycle hooks run on: this instance while save() or delete() writes it,
+   * else a new instance holding the values being written
+   */
+  protected hookRecord(attributes: Record<string, any>, exists: boolean): BaseModel {
+    if (this.writingSelf) return this;
+
+    const record = this.newModelInstance(this.constructor as typeof BaseModel);
+    record.setRawAttributes(attributes);
+    record.exists = exists;
+    return record;
+  }
+
+  /**
+   * Write this record, running the lifecycle hooks on it
+   */
+  private async writeSelf<T>(write: () => Promise<T>): Promise<T> {
+    this.writingSelf = true;
+    try {
+      return await write();
+    } finally {
+      this.writingSelf = false;
+    }
+  }
+
+  protected async beforeCreate(data: Record<string, any>, model: this): Promise<void> {
     // To be implemented by child classes
   }
 
-  protected async afterCreate(data: Record<string, any>): Promise<void> {
+  protected async afterCreate(data: Record<string, any>, model: this): Promise<void> {
     // To be implemented by child classes
   }
 
-  protected async beforeUpdate(data: Record<string, any>): Promise<void> {
+  protected async beforeUpdate(data: Record<string, any>, model: this): Promise<void> {
     // To be implemented by child classes
   }
 
-  protected async afterUpdate(data: Record<string, any>): Promise<void> {
+  protected async afterUpdate(data: Record<string, any>, model: this): Promise<void> {
     // To be implemented by child classes
   }
 
-  protected async beforeDelete(): Promise<void> {
+  protected async beforeDelete(model: this): Promise<void> {
     // To be implemented by child classes
   }
 
-  protected async afterDelete(): Promise<void> {
+  protected async afterDelete(model: this): Promise<void> {
     // To be implemented by child classes
   }
   async update(data: Record<string, any>): Promise<boolean>;
@@ -1116,18 +3460,20 @@ export class BaseModel {
       column = arg3 || null;
     }
 
+    const keyColumn = column || this.primaryKey;
+    const record = this.hookRecord(id === null || Array.isArray(id) ? data : { ...data, [keyColumn]: id }, true);
+
     await this.validate(data, true);
-    await this.beforeUpdate(data);
+    await this.runHook("beforeUpdate", record, data);
     await this.setTimestamps(data, true);
 
-    const keyColumn = column || this.primaryKey;
     const filteredData = this.filterAllowedFields(data);
 
     const setClause = Object.keys(filteredData)
-      .map((field) => `${field} = ?`)
+      .map((field) => `${this.wrap(field)} = ?`)
       .join(", ");
 
-    const values: any[] = Object.values(filteredData);
+    const values: any[] = Object.values(this.castAttributes(filteredData, "set"));
 
     let whereParts: string[] = [];
     let whereValues: any[] = [];
@@ -1138,15 +3484,15 @@ export class BaseModel {
           throw new Error("Empty array of IDs provided");
         }
         const placeholders = id.map(() => "?").join(", ");
-        whereParts.push(`${keyColumn} IN (${placeholders})`);
+        whereParts.push(`${this.wrap(keyColumn)} IN (${placeholders})`);
         whereValues.push(...id);
       } else {
-        whereParts.push(`${keyColumn} = ?`);
+        whereParts.push(`${this.wrap(keyColumn)} = ?`);
         whereValues.push(id);
       }
     }
 
-    const queryBuilderWhere = this.buildWhereClauses();
+    const queryBuilderWhere = this.buildScopedWhereClauses();
     if (queryBuilderWhere.sql) {
       whereParts.push(queryBuilderWhere.sql);
       whereValues.push(...queryBuilderWhere.params);
@@ -1158,19 +3504,112 @@ export class BaseModel {
 
     const whereClause = `WHERE ${whereParts.join(" AND ")}`;
 
-    const sql = `UPDATE ${this.table} SET ${setClause} ${whereClause}`;
+    const sql = `UPDATE ${this.wrap(this.table)} SET ${setClause} ${whereClause}`;
 
-    const result = await this.executeUpdate(sql, [...values, ...whereValues]);
+    const result = this.getDialect().getAffectedRows(await this.executeStatement(sql, [...values, ...whereValues]));
 
-    await this.afterUpdate(filteredData);
+    await this.runHook("afterUpdate", record, filteredData);
 
     return result > 0;
   }
 
+  /**
+   * Update many rows, each with its own values, using `CASE` statements over
+   * batches of keys. Returns the number of rows each entry updated (0 or 1), in order.
+   *
+   * @example
+   * ```typescript
+   * const counts = await new Product().updateMany([
+   *   { id: 1, stock: 5 },
+   *   { id: 2, stock: 9 },
+   * ]);
+   * // UPDATE products SET stock = CASE id WHEN ? THEN ? WHEN ? THEN ? ELSE stock END WHERE id IN (?, ?)
+   * ```
+   */
+  async updateMany(rows: Record<string, any>[], options: UpdateManyOptions = {}): Promise<number[]> {
+    const key = options.key || this.primaryKey;
+    const entries: { index: number; key: any; data: Record<string, any> }[] = [];
+    const keys = new Set<string>();
+
+    for (const row of rows) {
+      const { [key]: value, ...data } = row;
+      if (value === undefined || value === null) {
+        throw new Error(`Every row passed to updateMany needs a ${key} value`);
+      }
+      if (keys.has(String(value))) {
+        throw new Error(`Duplicate ${key} ${value} passed to updateMany`);
+      }
+      keys.add(String(value));
+
+      await this.validate(data, true);
+      await this.setTimestamps(data, true);
+      entries.push({ index: entries.length, key: value, data: this.castAttributes(this.filterAllowedFields(data), "set") });
+    }
+
+    const scoped = this.buildScopedWhereClauses();
+    const dialect = this.getDialect();
+    const columnCount = new Set(entries.flatMap((entry) => Object.keys(entry.data))).size;
+    // Each row binds its key in the IN list and a key/value pair per column
+    const size = Math.max(
+      1,
+      Math.min(options.batchSize || Infinity, Math.floor((dialect.maxParameters - scoped.params.length) / (2 * columnCount + 1)))
+    );
+
+    const counts: number[] = new Array(entries.length).fill(0);
+    // The SELECT of matching keys and the UPDATE must see the same rows
+    await this.runInTransaction(async () => {
+      for (let start = 0; start < entries.length; start += size) {
+        const batch = entries.slice(start, start + size).filter((entry) => Object.keys(entry.data).length > 0);
+        if (batch.length === 0) continue;
+
+        const keyValues = batch.map((entry) => entry.key);
+        let where = `WHERE ${this.wrap(key)} IN (${keyValues.map(() => "?").join(", ")})`;
+        if (scoped.sql) {
+          where += ` AND ${scoped.sql.trim()}`;
+        }
+
+        // Affected counts are per statement, so find out which keys match first
+        const matched = await this.executeQuery(`SELECT ${this.wrap(key)} FROM ${this.wrap(this.table)} ${where}`, [...keyValues, ...scoped.params]);
+        const matchedKeys = new Set(matched.map((row: any) => String(row[key])));
+
+        const values: any[] = [];
+        const columns = [...new Set(batch.flatMap((entry) => Object.keys(entry.data)))].sort();
+        const assignments = columns.map((column) => {
+          const cases = batch
+            .filter((entry) => column in entry.data)
+            .map((entry) => {
+              values.push(entry.key, entry.data[column]);
+              return "WHEN ? THEN ?";
+            });
+          // Rows not setting this column keep their value
+          return `${this.wrap(column)} = CASE ${this.wrap(key)} ${cases.join(" ")} ELSE ${this.wrap(column)} END`;
+        });
+
+        await this.executeStatement(`UPDATE ${this.wrap(this.table)} SET ${assignments.join(", ")} ${where}`, [
+          ...values,
+          ...keyValues,
+          ...scoped.params,
+        ]);
+
+        batch.forEach((entry) => {
+          if (matchedKeys.has(String(entry.key))) {
+            counts[entry.index] = 1;
+          }
+        });
+      }
+    });
+    return counts;
+  }
+
   async delete(): Promise<boolean>;
   async delete(id: string | number | Array<string | number>, column?: string | null): Promise<boolean>;
   async delete(arg1?: any, arg2?: any): Promise<boolean> {
-    await this.beforeDelete();
+    if (arg1 === undefined && this.exists && !this.buildWhereClauses().sql) {
+      // delete() of the record itself
+      const result = await this.writeSelf(() => this.withoutScopesApplied(() => this.delete(this.getKey())));
+      this.exists = false;
+      return result;
+    }
 
     let id: string | number | Array<string | number> | null = null;
     let column: string | null = null;
@@ -1186,10 +3625,13 @@ export class BaseModel {
 
     const keyColumn = column || this.primaryKey;
 
-    if (id !== null && !this.allowedFields.includes(keyColumn)) {
+    if (id !== null && keyColumn !== this.primaryKey && !this.allowedFields.includes(keyColumn)) {
       throw new Error(`Column ${keyColumn} is not allowed for deletion.`);
     }
 
+    const record = this.hookRecord(id === null || Array.isArray(id) ? {} : { [keyColumn]: id }, true);
+    await this.runHook("beforeDelete", record);
+
     let whereParts: string[] = [];
     let whereValues: any[] = [];
 
@@ -1199,15 +3641,15 @@ export class BaseModel {
           throw new Error("Empty array of IDs provided");
         }
         const placeholders = id.map(() => "?").join(", ");
-        whereParts.push(`${keyColumn} IN (${placeholders})`);
+        whereParts.push(`${this.wrap(keyColumn)} IN (${placeholders})`);
         whereValues.push(...id);
       } else {
-        whereParts.push(`${keyColumn} = ?`);
+        whereParts.push(`${this.wrap(keyColumn)} = ?`);
         whereValues.push(id);
       }
     }
 
-    const queryBuilderWhere = this.buildWhereClauses();
+    const queryBuilderWhere = this.buildScopedWhereClauses();
     if (queryBuilderWhere.sql) {
       whereParts.push(queryBuilderWhere.sql);
       whereValues.push(...queryBuilderWhere.params);
@@ -1219,11 +3661,11 @@ export class BaseModel {
 
     const whereClause = `WHERE ${whereParts.join(" AND ")}`;
 
-    const sql = `DELETE FROM ${this.table} ${whereClause}`;
+    const sql = `DELETE FROM ${this.wrap(this.table)} ${whereClause}`;
 
-    await this.executeQuery(sql, whereValues);
+    await this.executeStatement(sql, whereValues);
 
-    await this.afterDelete();
+    await this.runHook("afterDelete", record);
     return true;
   }
 
@@ -0,0 +1,127 @@
+// src/casts/Cast.test.ts
+import { BaseModel } from "../BaseModel";
+import { Cast, ModelConfig } from "../decorators";
+import { Schema } from "../schema";
+import { describeEachConnection } from "../testing/connections";
+import { CastAttribute, resolveCast } from "./Cast";
+
+enum Role {
+  Admin = "admin",
+  Member = "member",
+}
+
+class MoneyCast implements CastAttribute {
+  get(value: any) {
+    return value === null ? null : { cents: Number(value) };
+  }
+
+  set(value: any) {
+    return value && typeof value === "object" ? value.cents : value;
+  }
+}
+
+@ModelConfig({
+  timestamps: false,
+  casts: { active: "boolean", day: "date", at: "datetime", price: "decimal:2", big: "bigint", role: { enum: Role }, cost: MoneyCast },
+})
+class Item extends BaseModel {
+  public table = "items";
+  public allowedFields = ["meta", "active", "day", "at", "price", "big", "role", "cost"];
+
+  @Cast("json")
+  declare meta: any;
+}
+
+describe("resolveCast", () => {
+  it("converts values both ways", () => {
+    expect(resolveCast("boolean").get("0", "active", {})).toBe(false);
+    expect(resolveCast("boolean").get("t", "active", {})).toBe(true);
+    expect(resolveCast("json").set({ a: 1 }, "meta", {})).toBe('{"a":1}');
+    expect(resolveCast("decimal:2").set(10.049, "price", {})).toBe("10.05");
+    expect(resolveCast("decimal").get(3.5, "price", {})).toBe("3.5");
+    expect(resolveCast("bigint").set(12345678901n, "big", {})).toBe("12345678901");
+    expect(resolveCast("date").set(new Date(2024, 0, 15, 23, 30), "day", {})).toBe("2024-01-15");
+    expect(resolveCast({ enum: [1, 2] }).get("2", "level", {})).toBe(2);
+  });
+
+  it("rounds decimals without going through floating point", () => {
+    const decimal = resolveCast("decimal:2");
+
+    expect(decimal.get("12345678901234567.125", "price", {})).toBe("12345678901234567.13");
+    expect(decimal.get("1.005", "price", {})).toBe("1.01");
+    expect(decimal.get("-1.005", "price", {})).toBe("-1.01");
+    expect(decimal.get("-0.004", "price", {})).toBe("0.00");
+    expect(decimal.get(2, "price", {})).toBe("2.00");
+    expect(decimal.get(1e-7, "price", {})).toBe("0.00");
+    expect(decimal.get(".5", "price", {})).toBe("0.50");
+    expect(resolveCast("decimal:0").get("2.5", "price", {})).toBe("3");
+    expect(() => decimal.set("abc", "price", {})).toThrow("Invalid decimal abc for price");
+  });
+
+  it("rejects unknown casts and values outside an enum", () => {
+    expect(() => resolveCast("money" as any)).toThrow("Unknown cast: money");
+    expect(() => resolveCast({ enum: Role }).set("owner", "role", {})).toThrow("Invalid value owner for role. Expected one of: admin, member");
+  });
+});
+
+describeEachConnection("casts", () => {
+  beforeEach(async () => {
+    await Schema.create("items", (table) => {
+      table.increments();
+      table.json("meta").nullable();
+      table.boolean("active").nullable();
+      table.date("day").nullable();
+      table.dateTime("at").nullable();
+      table.string("price").nullable();
+      table.bigInteger("big").nullable();
+      table.string("role").nullable();
+      table.integer("cost").nullable();
+    });
+  });
+
+  it("casts attributes written and read through a model", async () => {
+    const at = new Date("2024-01-15T10:00:00Z");
+    const id = await new Item().insert({
+      meta: { tags: [1, 2] },
+      active: false,
+      day: new Date(2024, 0, 15),
+      at,
+      price: 3.14159,
+      big: 12345678901n,
+      role: Role.Admin,
+      cost: { cents: 250 },
+    });
+    const item = (await new Item().find<Item>(id))!;
+
+    expect(item.getAttributes()).toMatchObject({
+      meta: { tags: [1, 2] },
+      active: false,
+      day: new Date(2024, 0, 15),
+      at,
+      price: "3.14",
+      big: 12345678901n,
+      role: "admin",
+      cost: { cents: 250 },
+    });
+    expect(JSON.parse(JSON.stringify(item))).toMatchObject({ price: "3.14", big: "12345678901" });
+    expect(item.isDirty()).toBe(false);
+  });
+
+  it("tracks changes inside casted objects", async () => {
+    const id = await new Item().insert({ meta: { tags: [1] }, active: false });
+    const item = (await new Item().find<Item>(id))!;
+
+    item.meta.tags.push(2);
+    item.setAttribute("active", true);
+    expect(item.getChanges()).toEqual({ meta: { tags: [1, 2] }, active: true });
+
+    await item.save();
+    await item.refresh();
+    expect([item.meta, item.getAttribute("active")]).toEqual([{ tags: [1, 2] }, true]);
+  });
+
+  it("rejects enum values before writing", async () => {
+    await expect(new Item().insert({ role: "owner" })).rejects.toThrow("Invalid value owner for role");
+    expect(await new Item().count()).toBe(0);
+  });
+});
@@ -0,0 +1,236 @@
+// src/casts/Cast.ts
+
+/**
+ * Converts an attribute between its database and JavaScript representation
+ *
+ * @example
+ * ```typescript
+ * class MoneyCast implements CastAttribute {
+ *   get(value: any) {
+ *     return value === null ? null : new Money(value);
+ *   }
+ *
+ *   set(value: any) {
+ *     return value instanceof Money ? value.cents : value;
+ *   }
+ * }
+ * ```
+ */
+export interface CastAttribute {
+  /**
+   * Database value to JavaScript, when records are read
+   */
+  get(value: any, key: string, attributes: Record<string, any>): any;
+  /**
+   * JavaScript value to database, when records are inserted or updated
+   */
+  set(value: any, key: string, attributes: Record<string, any>): any;
+}
+
+export type EnumValues = Record<string, string | number> | readonly (string | number)[];
+
+/**
+ * A built-in cast name (`decimal:2` rounds to two places), an enum, or a custom cast
+ */
+export type CastDefinition =
+  | "json"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "decimal"
+  | `decimal:${number}`
+  | "bigint"
+  | { enum: EnumValues }
+  | CastAttribute
+  | (new () => CastAttribute);
+
+export class JsonCast implements CastAttribute {
+  get(value: any): any {
+    return typeof value === "string" ? JSON.parse(value) : value;
+  }
+
+  set(value: any): any {
+    return value === null || value === undefined ? value : JSON.stringify(value);
+  }
+}
+
+export class BooleanCast implements CastAttribute {
+  get(value: any): boolean | null {
+    return this.toBoolean(value);
+  }
+
+  set(value: any): boolean | null {
+    return this.toBoolean(value);
+  }
+
+  protected toBoolean(value: any): boolean | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === "string") return !["0", "", "false", "f"].includes(value.toLowerCase());
+    return Boolean(value);
+  }
+}
+
+export class DateTimeCast implements CastAttribute {
+  get(value: any): Date | null {
+    if (value === null || value === undefined) return null;
+    return value instanceof Date ? value : new Date(value);
+  }
+
+  set(value: any): Date | null {
+    return this.get(value);
+  }
+}
+
+/**
+ * Calendar date without a time, stored as YYYY-MM-DD
+ */
+export class DateCast extends DateTimeCast {
+  get(value: any): Date | null {
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return new Date(`${value}T00:00:00`);
+    }
+    return super.get(value);
+  }
+
+  set(value: any): any {
+    const date = this.get(value);
+    if (!date) return date;
+
+    const pad = (part: number) => String(part).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
+
+/**
+ * Decimal numbers as strings, so no precision is lost to floating point
+ */
+export class DecimalCast implements CastAttribute {
+  constructor(protected readonly places?: number) {}
+
+  get(value: any, key: string): string | null {
+    if (value === null || value === undefined) return null;
+    return this.places === undefined ? String(value) : this.round(String(value), key);
+  }
+
+  set(value: any, key: string): string | null {
+    return this.get(value, key);
+  }
+
+  /**
+   * Round the decimal string itself, half away from zero, to the configured places
+   */
+  protected round(value: string, key: string): string {
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal ${value} for ${key}`);
+    }
+
+    const [, sign, integer, fraction = "", exponent = "0"] = match;
+    const places = this.places!;
+    // The value is digits / 10^scale
+    let digits = BigInt(integer + fraction || "0");
+    const scale = fraction.length - Number(exponent);
+    if (scale <= places) {
+      digits *= 10n ** BigInt(places - scale);
+    } else {
+      const divisor = 10n ** BigInt(scale - places);
+      const remainder = digits % divisor;
+      digits = digits / divisor + (remainder * 2n >= divisor ? 1n : 0n);
+    }
+
+    const padded = digits.toString().padStart(places + 1, "0");
+    const rounded = places === 0 ? padded : `${padded.slice(0, -places)}.${padded.slice(-places)}`;
+    return sign === "-" && digits !== 0n ? `-${rounded}` : rounded;
+  }
+}
+
+export class BigIntCast implements CastAttribute {
+  get(value: any): bigint | null {
+    return value === null || value === undefined ? null : BigInt(value);
+  }
+
+  set(value: any): string | null {
+    return value === null || value === undefined ? null : BigInt(value).toString();
+  }
+}
+
+/**
+ * Restricts an attribute to the values of a TypeScript enum or a list
+ */
+export class EnumCast implements CastAttribute {
+  protected readonly values: (string | number)[];
+
+  constructor(values: EnumValues) {
+    this.values = Array.isArray(values)
+      ? [...values]
+      : Object.keys(values)
+          // Numeric enums map values back to names; skip those reverse entries
+          .filter((name) => isNaN(Number(name)))
+          .map((name) => (values as Record<string, string | number>)[name]);
+  }
+
+  get(value: any, key: string): any {
+    if (value === null || value === undefined) return value;
+    return this.resolve(value, key);
+  }
+
+  set(value: any, key: string): any {
+    if (value === null || value === undefined) return value;
+    return this.resolve(value, key);
+  }
+
+  protected resolve(value: any, key: string): string | number {
+    const match = this.values.find((allowed) => allowed === value || String(allowed) === String(value));
+    if (match === undefined) {
+      throw new Error(`Invalid value ${value} for ${key}. Expected one of: ${this.values.join(", ")}`);
+    }
+    return match;
+  }
+}
+
+const resolvedCasts = new WeakMap<object, Record<string, CastAttribute>>();
+
+/**
+ * Turn a cast definition into a cast instance
+ */
+export function resolveCast(definition: CastDefinition): CastAttribute {
+  if (typeof definition === "function") {
+    return new definition();
+  }
+  if (typeof definition === "object") {
+    return "enum" in definition ? new EnumCast(definition.enum) : definition;
+  }
+
+  const [name, argument] = definition.split(":");
+  switch (name) {
+    case "json":
+      return new JsonCast();
+    case "boolean":
+      return new BooleanCast();
+    case "date":
+      return new DateCast();
+    case "datetime":
+      return new DateTimeCast();
+    case "decimal":
+      return new DecimalCast(argument === undefined ? undefined : Number(argument));
+    case "bigint":
+      return new BigIntCast();
+    default:
+      throw new Error(`Unknown cast: ${definition}`);
+  }
+}
+
+/**
+ * Resolve a casts map once and reuse the instances
+ */
+export function resolveCasts(casts: Record<string, CastDefinition>): Record<string, CastAttribute> {
+  let resolved = resolvedCasts.get(casts);
+  if (!resolved) {
+    resolved = {};
+    for (const [key, definition] of Object.entries(casts)) {
+      resolved[key] = resolveCast(definition);
+    }
+    resolvedCasts.set(casts, resolved);
+  }
+  return resolved;
+}
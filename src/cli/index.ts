@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+// src/cli/index.ts
+import fs from "fs";
+import path from "path";
+import { BaseModel } from "../BaseModel";
+import { Migrator } from "../migrations/Migrator";
+import { SeederRunner } from "../seeders/SeederRunner";
+import { OrmConfig } from "../types/interfaces";
+
+const CONFIG_FILES = ["baracota.config.js", "baracota.config.cjs", "baracota.config.ts", "baracota.config.json"];
+
+const HELP = `Usage: baracota <command> [options]
+
+Commands:
+  migrate                 Run pending migrations
+  migrate:rollback        Revert the last batch (--step=N reverts the last N migrations)
+  migrate:reset           Revert all migrations
+  migrate:refresh         Revert and re-run all migrations
+  migrate:status          Show which migrations have run
+  make:migration <name>   Create a new migration file (--js for JavaScript)
+  db:seed                 Run DatabaseSeeder, or every seeder (--class=Name runs one)
+
+Options:
+  --config <path>         Config file (default: ${CONFIG_FILES.join(", ")})
+  --connection=<name>     Named connection to migrate (default: the default connection)
+`;
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  options: Record<string, string | boolean>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith("--")) {
+      const [key, value] = arg.slice(2).split("=");
+      if (value !== undefined) {
+        parsed.options[key] = value;
+      } else if (argv[i + 1] && !argv[i + 1].startsWith("--") && key === "config") {
+        parsed.options[key] = argv[++i];
+      } else {
+        parsed.options[key] = true;
+      }
+    } else if (!parsed.command) {
+      parsed.command = arg;
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Make `require` understand TypeScript files when ts-node is installed
+ */
+function registerTypeScript(): void {
+  try {
+    require("ts-node/register");
+  } catch {
+    // TypeScript files will fail to load with a clear error from Node
+  }
+}
+
+function loadConfig(configPath?: string): OrmConfig {
+  const candidates = configPath ? [configPath] : CONFIG_FILES;
+  const file = candidates.map((candidate) => path.resolve(candidate)).find((candidate) => fs.existsSync(candidate));
+
+  if (!file) {
+    throw new Error(`No config file found. Create one of: ${CONFIG_FILES.join(", ")}`);
+  }
+  if (file.endsWith(".ts")) registerTypeScript();
+
+  const exported = require(file);
+  return exported.default || exported;
+}
+
+function timestamp(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+function makeMigration(directory: string, name: string, javascript: boolean): string {
+  const className = name.replace(/(^|[_\-\s]+)(\w)/g, (_, __, char: string) => char.toUpperCase());
+  const file = path.join(directory, `${timestamp()}_${name}.${javascript ? "js" : "ts"}`);
+
+  const body = javascript
+    ? `const { Migration } = require("baracota-node-db");
+
+module.exports = class ${className} extends Migration {
+  async up(schema) {
+    //
+  }
+
+  async down(schema) {
+    //
+  }
+};
+`
+    : `import { Migration, SchemaBuilder } from "baracota-node-db";
+
+export default class ${className} extends Migration {
+  async up(schema: SchemaBuilder): Promise<void> {
+    //
+  }
+
+  async down(schema: SchemaBuilder): Promise<void> {
+    //
+  }
+}
+`;
+
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(file, body);
+  return file;
+}
+
+function print(lines: string[], prefix: string, empty: string): void {
+  if (lines.length === 0) {
+    console.log(empty);
+    return;
+  }
+  lines.forEach((line) => console.log(`${prefix}: ${line}`));
+}
+
+/**
+ * Run a CLI command, e.g. `runCli(["migrate"])`
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  const args = parseArgs(argv);
+
+  if (!args.command || args.command === "help" || args.options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  const config = loadConfig(args.options.config as string | undefined);
+  const directory = path.resolve(config.migrations?.directory || "migrations");
+
+  if (args.command === "make:migration") {
+    const name = args.positional[0];
+    if (!name) throw new Error("Usage: baracota make:migration <name>");
+    console.log(`Created migration: ${makeMigration(directory, name, Boolean(args.options.js))}`);
+    return;
+  }
+
+  registerTypeScript();
+  await BaseModel.initialize(config);
+  const migrator = new Migrator({
+    connection: args.options.connection as string | undefined,
+    directory,
+    tableName: config.migrations?.tableName,
+  });
+
+  try {
+    switch (args.command) {
+      case "migrate":
+        print(await migrator.migrate(), "Migrated", "Nothing to migrate.");
+        break;
+      case "migrate:rollback":
+        print(await migrator.rollback({ step: args.options.step ? Number(args.options.step) : undefined }), "Rolled back", "Nothing to rollback.");
+        break;
+      case "migrate:reset":
+        print(await migrator.reset(), "Rolled back", "Nothing to rollback.");
+        break;
+      case "migrate:refresh": {
+        const { rolledBack, migrated } = await migrator.refresh();
+        print(rolledBack, "Rolled back", "Nothing to rollback.");
+        print(migrated, "Migrated", "Nothing to migrate.");
+        break;
+      }
+      case "db:seed": {
+        const runner = new SeederRunner({ directory: config.seeders?.directory });
+        print(await runner.run(args.options.class as string | undefined), "Seeded", "No seeders found.");
+        break;
+      }
+      case "migrate:status":
+        for (const status of await migrator.status()) {
+          console.log(`${status.ran ? `Ran (batch ${status.batch})` : "Pending"}\t${status.name}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown command: ${args.command}\n\n${HELP}`);
+    }
+  } finally {
+    await BaseModel.closeConnections();
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,79 @@
+// src/database/LoggedConnection.test.ts
+import { BaseModel } from "../BaseModel";
+import { Schema } from "../schema";
+import { LoggingConfig, QueryErrorEvent, QueryEvent } from "../types/interfaces";
+import { queryEvents } from "./LoggedConnection";
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title"];
+}
+
+describe("LoggedConnection", () => {
+  let logged: QueryEvent[];
+  let failed: QueryErrorEvent[];
+
+  const initialize = async (logging: Omit<LoggingConfig, "logger"> = {}) => {
+    logged = [];
+    failed = [];
+    await BaseModel.initialize({
+      client: "sqlite",
+      connection: { filename: ":memory:" },
+      logging: { ...logging, logger: { query: (event) => logged.push(event), queryError: (event) => failed.push(event) } },
+    });
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+    });
+    logged = [];
+  };
+
+  afterEach(() => BaseModel.closeConnections());
+
+  it("reports queries, statements and transactions to the logger", async () => {
+    await initialize();
+    await new Post().insert({ title: "first" });
+    await BaseModel.transaction(() => new Post().where("title", "first").get());
+
+    expect(logged.map(({ sql, bindings, connection, rowCount }) => ({ sql, bindings, connection, rowCount }))).toEqual([
+      { sql: expect.stringMatching(/^INSERT INTO/), bindings: ["first"], connection: "default", rowCount: 1 },
+      { sql: expect.stringMatching(/^SELECT/), bindings: ["first"], connection: "default", rowCount: 1 },
+    ]);
+    expect(logged[0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports failures to the logger and to queryEvents", async () => {
+    await initialize();
+    const emitted: QueryErrorEvent[] = [];
+    const listener = (event: QueryErrorEvent) => emitted.push(event);
+    queryEvents.on("queryError", listener);
+
+    try {
+      await expect(BaseModel.getDefaultConnection().query("SELECT * FROM missing WHERE id = ?", [1])).rejects.toThrow();
+    } finally {
+      queryEvents.off("queryError", listener);
+    }
+
+    expect(failed).toHaveLength(1);
+    expect(emitted).toEqual(failed);
+    expect(failed[0]).toMatchObject({ sql: "SELECT * FROM missing WHERE id = ?", bindings: [1], error: expect.any(Error) });
+  });
+
+  it("redacts bindings", async () => {
+    await initialize({ redactBindings: true });
+    await new Post().insert({ title: "secret" });
+
+    expect(logged[0].bindings).toEqual(["[REDACTED]"]);
+  });
+
+  it("flags slow queries and can report only those", async () => {
+    await initialize({ slowQueryThreshold: 0, slowQueriesOnly: true });
+    await new Post().count();
+    expect(logged.map((event) => event.slow)).toEqual([true]);
+
+    await BaseModel.closeConnections();
+    await initialize({ slowQueryThreshold: 60_000, slowQueriesOnly: true });
+    await new Post().count();
+    expect(logged).toEqual([]);
+  });
+});
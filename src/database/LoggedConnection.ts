@@ -0,0 +1,181 @@
+// src/database/LoggedConnection.ts
+import { EventEmitter } from "events";
+import { DatabaseConnection, LoggingConfig, QueryErrorEvent, QueryEvent, QueryLogger } from "../types/interfaces";
+import { Dialect } from "./dialects/Dialect";
+import { streamRows } from "./stream";
+
+export declare interface QueryEventEmitter {
+  on(event: "query", listener: (event: QueryEvent) => void): this;
+  on(event: "queryError", listener: (event: QueryErrorEvent) => void): this;
+  once(event: "query", listener: (event: QueryEvent) => void): this;
+  once(event: "queryError", listener: (event: QueryErrorEvent) => void): this;
+  off(event: "query", listener: (event: QueryEvent) => void): this;
+  off(event: "queryError", listener: (event: QueryErrorEvent) => void): this;
+  emit(event: "query", payload: QueryEvent): boolean;
+  emit(event: "queryError", payload: QueryErrorEvent): boolean;
+}
+
+export class QueryEventEmitter extends EventEmitter {}
+
+/**
+ * `query` and `queryError` events of every connection
+ *
+ * @example
+ * ```typescript
+ * queryEvents.on('query', ({ sql, duration, connection }) => metrics.timing(connection, duration));
+ * ```
+ */
+export const queryEvents = new QueryEventEmitter();
+
+/**
+ * Logger writing to the console: queries at debug level, slow queries as warnings, failures as errors
+ */
+export const consoleQueryLogger: QueryLogger = {
+  query(event) {
+    const message = `[${event.connection}] ${event.sql} ${JSON.stringify(event.bindings)} (${event.duration}ms, ${event.rowCount} rows)`;
+    if (event.slow) {
+      console.warn(`Slow query ${message}`);
+    } else {
+      console.debug(message);
+    }
+  },
+  queryError(event) {
+    console.error(`[${event.connection}] ${event.sql} ${JSON.stringify(event.bindings)} failed:`, event.error);
+  },
+};
+
+/**
+ * Reports every statement of a connection to its logger and to queryEvents.
+ * Reserved (transaction) and replica connections are wrapped as well.
+ */
+export class LoggedConnection implements DatabaseConnection {
+  readonly dialect: Dialect;
+  readonly exclusive?: boolean;
+
+  constructor(
+    protected readonly connection: DatabaseConnection,
+    readonly name: string,
+    protected readonly options: LoggingConfig = {}
+  ) {
+    this.dialect = connection.dialect;
+    this.exclusive = connection.exclusive;
+  }
+
+  query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    return this.measure(sql, params, () => this.connection.query<T>(sql, params), ([rows]) => (Array.isArray(rows) ? rows.length : 0));
+  }
+
+  execute(sql: string, params?: any[]): Promise<any> {
+    return this.measure(sql, params, () => this.connection.execute(sql, params), (result) => this.dialect.getAffectedRows(result) || 0);
+  }
+
+  /**
+   * Reported once iteration ends; the duration includes the time spent processing the rows
+   */
+  async *stream<T = any>(sql: string, params?: any[]): AsyncGenerator<T> {
+    const report = this.start(sql, params);
+    let rowCount = 0;
+    let failed = false;
+    try {
+      for await (const row of streamRows<T>(this.connection, sql, params)) {
+        rowCount++;
+        yield row;
+      }
+    } catch (error) {
+      failed = true;
+      report?.failed(error);
+      throw error;
+    } finally {
+      // Also when the consumer stops early
+      if (!failed) report?.finished(rowCount);
+    }
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return new LoggedConnection(await this.connection.acquireConnection(), this.name, this.options);
+  }
+
+  readConnection(): DatabaseConnection {
+    const connection = this.connection.readConnection ? this.connection.readConnection() : this.connection;
+    return connection === this.connection ? this : new LoggedConnection(connection, this.name, this.options);
+  }
+
+  beginTransaction(): Promise<void> {
+    return this.connection.beginTransaction();
+  }
+
+  commit(): Promise<void> {
+    return this.connection.commit();
+  }
+
+  rollback(): Promise<void> {
+    return this.connection.rollback();
+  }
+
+  release(): Promise<void> {
+    return this.connection.release();
+  }
+
+  protected async measure<R>(sql: string, params: any[] | undefined, run: () => Promise<R>, rowCount: (result: R) => number): Promise<R> {
+    const report = this.start(sql, params);
+    if (!report) return run();
+
+    let result: R;
+    try {
+      result = await run();
+    } catch (error) {
+      report.failed(error);
+      throw error;
+    }
+
+    report.finished(rowCount(result));
+    return result;
+  }
+
+  /**
+   * Start timing a statement; null when nobody listens
+   */
+  protected start(sql: string, params: any[] | undefined): { finished(rowCount: number): void; failed(error: unknown): void } | null {
+    const { logger } = this.options;
+    if (!logger && queryEvents.listenerCount("query") === 0 && queryEvents.listenerCount("queryError") === 0) {
+      return null;
+    }
+
+    const start = process.hrtime.bigint();
+    const elapsed = () => Number((process.hrtime.bigint() - start) / 1000n) / 1000;
+
+    return {
+      finished: (rowCount) => {
+        const duration = elapsed();
+        const threshold = this.options.slowQueryThreshold;
+        const event: QueryEvent = {
+          sql,
+          bindings: this.redact(sql, params),
+          duration,
+          connection: this.name,
+          rowCount,
+          slow: threshold !== undefined && duration >= threshold,
+        };
+
+        if (!this.options.slowQueriesOnly || event.slow) {
+          logger?.query?.(event);
+        }
+        queryEvents.emit("query", event);
+      },
+      failed: (error) => {
+        const event: QueryErrorEvent = { sql, bindings: this.redact(sql, params), duration: elapsed(), connection: this.name, error };
+        logger?.queryError?.(event);
+        queryEvents.emit("queryError", event);
+      },
+    };
+  }
+
+  protected redact(sql: string, params: any[] = []): any[] {
+    const { redactBindings } = this.options;
+    if (!redactBindings) return [...params];
+    if (typeof redactBindings === "function") {
+      return params.map((value, index) => redactBindings(value, index, sql));
+    }
+    return params.map(() => "[REDACTED]");
+  }
+}
@@ -0,0 +1,55 @@
+// src/database/ReadWriteConnection.test.ts
+import { BaseModel } from "../BaseModel";
+import { Schema } from "../schema";
+import { ReadWriteConnection } from "./ReadWriteConnection";
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["title"];
+}
+
+describe("ReadWriteConnection", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({
+      client: "sqlite",
+      connection: { filename: ":memory:", write: {}, read: [{}], sticky: true },
+    });
+
+    // Primary and replica are separate in-memory databases holding the same row
+    const primary = BaseModel.getDefaultConnection();
+    for (const connection of [primary, primary.readConnection!()]) {
+      await Schema.connection(connection).create("posts", (table) => {
+        table.increments();
+        table.string("title");
+        table.timestamps();
+      });
+      await connection.execute("INSERT INTO posts (title) VALUES ('first')");
+    }
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  it("reads from the replica until the scope writes", async () => {
+    await ReadWriteConnection.scope(async () => {
+      await BaseModel.getDefaultConnection().execute("UPDATE posts SET title = 'changed'");
+      expect((await new Post().first<Post>())?.getAttribute("title")).toBe("changed");
+    });
+
+    expect((await new Post().first<Post>())?.getAttribute("title")).toBe("first");
+  });
+
+  it("keeps reading from the replica after a write outside of a scope", async () => {
+    await BaseModel.getDefaultConnection().execute("UPDATE posts SET title = 'changed'");
+
+    expect((await new Post().first<Post>())?.getAttribute("title")).toBe("first");
+  });
+
+  it("reads from the primary after a delete", async () => {
+    await ReadWriteConnection.scope(async () => {
+      await new Post().delete(1);
+      expect(await new Post().find(1)).toBeNull();
+    });
+
+    expect(await new Post().find(1)).not.toBeNull();
+  });
+});
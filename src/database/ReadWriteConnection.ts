@@ -0,0 +1,113 @@
+// src/database/ReadWriteConnection.ts
+import { AsyncLocalStorage } from "async_hooks";
+import { DatabaseConnection, ReplicationConfig } from "../types/interfaces";
+import { Dialect } from "./dialects/Dialect";
+import { streamRows } from "./stream";
+
+/**
+ * Connections written to within the current ReadWriteConnection.scope()
+ */
+const modifiedConnections = new AsyncLocalStorage<Set<DatabaseConnection>>();
+
+/**
+ * A primary connection with read replicas.
+ *
+ * Everything runs on the primary, except the plain reads models send through
+ * readConnection(), which are spread over the replicas.
+ *
+ * @example
+ * ```typescript
+ * await initORM({
+ *   client: 'mysql',
+ *   connection: {
+ *     user: 'app', password: 'secret', database: 'app',
+ *     write: { host: 'db-primary' },
+ *     read: [{ host: 'db-replica-1' }, { host: 'db-replica-2' }],
+ *     sticky: true,
+ *   },
+ * });
+ * ```
+ */
+export class ReadWriteConnection implements DatabaseConnection {
+  readonly dialect: Dialect;
+  protected nextReplica: number = 0;
+
+  constructor(
+    protected readonly writeConnection: DatabaseConnection,
+    protected readonly readConnections: DatabaseConnection[],
+    protected readonly options: Pick<ReplicationConfig, "readStrategy" | "sticky"> = {}
+  ) {
+    this.dialect = writeConnection.dialect;
+  }
+
+  /**
+   * Run a callback as one unit of work (typically an HTTP request): with
+   * `sticky`, reads after a write inside it go to the primary
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => ReadWriteConnection.scope(next));
+   * ```
+   */
+  static scope<T>(callback: () => T): T {
+    return modifiedConnections.run(new Set(), callback);
+  }
+
+  readConnection(): DatabaseConnection {
+    if (this.readConnections.length === 0) return this.writeConnection;
+    if (this.options.sticky && modifiedConnections.getStore()?.has(this)) return this.writeConnection;
+
+    const index =
+      this.options.readStrategy === "random"
+        ? Math.floor(Math.random() * this.readConnections.length)
+        : this.nextReplica++ % this.readConnections.length;
+    return this.readConnections[index];
+  }
+
+  /**
+   * Anything but a SELECT sent here may write, so it counts as a modification
+   */
+  query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    if (!/^\s*SELECT\b/i.test(sql)) {
+      this.recordModification();
+    }
+    return this.writeConnection.query<T>(sql, params);
+  }
+
+  stream<T = any>(sql: string, params?: any[]): AsyncIterable<T> {
+    return streamRows<T>(this.writeConnection, sql, params);
+  }
+
+  execute(sql: string, params?: any[]): Promise<any> {
+    this.recordModification();
+    return this.writeConnection.execute(sql, params);
+  }
+
+  /**
+   * Transactions always run on the primary
+   */
+  acquireConnection(): Promise<DatabaseConnection> {
+    this.recordModification();
+    return this.writeConnection.acquireConnection();
+  }
+
+  beginTransaction(): Promise<void> {
+    return this.writeConnection.beginTransaction();
+  }
+
+  commit(): Promise<void> {
+    return this.writeConnection.commit();
+  }
+
+  rollback(): Promise<void> {
+    return this.writeConnection.rollback();
+  }
+
+  async release(): Promise<void> {
+    await Promise.all([this.writeConnection, ...this.readConnections].map((connection) => connection.release()));
+  }
+
+  protected recordModification(): void {
+    modifiedConnections.getStore()?.add(this);
+  }
+}
@@ -0,0 +1,115 @@
+// src/database/Transaction.test.ts
+import { BaseModel } from "../BaseModel";
+import { Schema } from "../schema";
+import { Transaction } from "./Transaction";
+
+class Account extends BaseModel {
+  public table = "accounts";
+  public allowedFields = ["name"];
+}
+
+describe("Transaction on SQLite", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({ client: "sqlite", connection: { filename: ":memory:" } });
+    await Schema.create("accounts", (table) => {
+      table.increments();
+      table.string("name");
+      table.timestamps();
+    });
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  const names = async () => (await new Account().orderBy("id").get<Account>()).map((account) => account.getAttribute("name"));
+
+  it("commits, rolls back and uses savepoints for nested transactions", async () => {
+    await BaseModel.transaction(async (trx) => {
+      await new Account().insert({ name: "kept" });
+      await trx
+        .transaction(async () => {
+          await new Account().insert({ name: "undone" });
+          throw new Error("inner");
+        })
+        .catch(() => undefined);
+    });
+    await BaseModel.transaction(async () => {
+      await new Account().insert({ name: "rolled back" });
+      throw new Error("outer");
+    }).catch(() => undefined);
+
+    expect(await names()).toEqual(["kept"]);
+  });
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  it("runs concurrent transactions one after the other", async () => {
+    const run = (name: string) =>
+      BaseModel.transaction(async () => {
+        await new Account().insert({ name });
+        await tick();
+        await new Account().insert({ name });
+      });
+
+    await Promise.all([run("a"), run("b")]);
+
+    expect(await names()).toEqual(["a", "a", "b", "b"]);
+  });
+
+  it("keeps writes from other async contexts out of an open transaction", async () => {
+    let opened!: () => void;
+    const open = new Promise<void>((resolve) => (opened = resolve));
+    const transaction = BaseModel.transaction(async () => {
+      await new Account().insert({ name: "rolled back" });
+      opened();
+      await tick();
+      await tick();
+      throw new Error("rollback");
+    }).catch(() => undefined);
+
+    await open;
+    await new Account().insert({ name: "outside" });
+    await transaction;
+
+    expect(await names()).toEqual(["outside"]);
+  });
+
+  it("rejects leaving the transaction instead of waiting for it", async () => {
+    await BaseModel.transaction(async () => {
+      await new Account().insert({ name: "kept" });
+      await expect(BaseModel.withoutTransaction(() => new Account().insert({ name: "outside" }))).rejects.toThrow(
+        "Cannot run outside of a transaction that has the database to itself (SQLite): the queries would wait for it to finish"
+      );
+    });
+
+    expect(await names()).toEqual(["kept"]);
+  });
+
+  it("times out queries that wait for the transaction they are issued from", async () => {
+    await BaseModel.initialize({ client: "sqlite", connection: { filename: ":memory:", busyTimeout: 20 } });
+    const connection = BaseModel.getDefaultConnection();
+
+    await BaseModel.transaction(async () => {
+      await expect(connection.query("SELECT 1")).rejects.toThrow("Timed out after 20ms waiting for a transaction to release the SQLite database");
+    });
+    expect(await connection.query("SELECT 1 AS one")).toEqual([[{ one: 1 }], {}]);
+  });
+
+  it("propagates the open transaction to code that does not receive it", async () => {
+    const connection = BaseModel.getDefaultConnection();
+    const levels: number[] = [];
+    let ambient: [Transaction, Transaction | undefined] | undefined;
+
+    await BaseModel.transaction(async (trx) => {
+      await Promise.all(["a", "b"].map((name) => new Account().insert({ name })));
+      await new Promise<void>((resolve) => setTimeout(() => new Account().insert({ name: "timer" }).then(() => resolve()), 1));
+      await BaseModel.transaction(async (nested) => levels.push(nested.transactionLevel));
+      ambient = [trx, Transaction.current(connection)];
+      throw new Error("rollback");
+    }).catch(() => undefined);
+
+    expect(levels).toEqual([2]);
+    expect(ambient![1]).toBe(ambient![0]);
+    expect(Transaction.current(connection)).toBeUndefined();
+    expect(await names()).toEqual([]);
+  });
+});
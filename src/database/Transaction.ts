@@ -0,0 +1,169 @@
+// src/database/Transaction.ts
+import { AsyncLocalStorage } from "async_hooks";
+import { DatabaseConnection } from "../types/interfaces";
+import { Dialect } from "./dialects/Dialect";
+import { streamRows } from "./stream";
+
+/**
+ * A transaction pinned to a single underlying connection.
+ *
+ * Every query issued through it runs on that connection. Nested
+ * transaction() calls become savepoints. While the callback runs, the
+ * transaction is also the ambient one: models that are not bound to a
+ * connection join it automatically.
+ *
+ * @example
+ * ```typescript
+ * await BaseModel.transaction(async (trx) => {
+ *   const userId = await new User(trx).insert({ name: 'Alice' });
+ *
+ *   await trx.transaction(async (nested) => {
+ *     await new Post(nested).insert({ title: 'Draft', user_id: userId });
+ *   }); // SAVEPOINT / RELEASE SAVEPOINT
+ *
+ *   await new Post().insert({ title: 'Joins trx implicitly', user_id: userId });
+ * });
+ * ```
+ */
+/**
+ * Ambient transactions of the current async call tree, keyed by the connection they were started on
+ */
+const ambientTransactions = new AsyncLocalStorage<Map<DatabaseConnection, Transaction>>();
+
+export class Transaction implements DatabaseConnection {
+  readonly dialect: Dialect;
+  protected level: number = 0;
+
+  constructor(protected readonly connection: DatabaseConnection) {
+    this.dialect = connection.dialect;
+  }
+
+  /**
+   * Run a callback inside a transaction on the given connection. When the
+   * connection already is a transaction, or one is ambient for it, a
+   * savepoint is used instead.
+   */
+  static async run<T>(connection: DatabaseConnection, callback: (transaction: Transaction) => Promise<T>): Promise<T> {
+    const current = connection instanceof Transaction ? connection : Transaction.current(connection);
+    if (current) {
+      return current.transaction(callback);
+    }
+
+    const transaction = new Transaction(await connection.acquireConnection());
+    const ambient = new Map(ambientTransactions.getStore());
+    ambient.set(connection, transaction);
+
+    try {
+      return await ambientTransactions.run(ambient, () => transaction.transaction(callback));
+    } finally {
+      await transaction.release();
+    }
+  }
+
+  /**
+   * The transaction started on the given connection in the current async context, if any
+   */
+  static current(connection: DatabaseConnection): Transaction | undefined {
+    return ambientTransactions.getStore()?.get(connection);
+  }
+
+  /**
+   * Run a callback outside of any ambient transaction, e.g. to write an audit
+   * record that must survive a rollback. Not possible while the ambient
+   * transaction holds an exclusive connection (SQLite): the callback's queries
+   * would wait for that transaction, which waits for the callback.
+   *
+   * @example
+   * ```typescript
+   * await transaction(async () => {
+   *   await Transaction.outside(() => new AuditLog().insert({ action: 'attempt' }));
+   *   await new Order().insert(order);
+   * });
+   * ```
+   */
+  static outside<T>(callback: () => T): T {
+    for (const transaction of ambientTransactions.getStore()?.values() ?? []) {
+      if (transaction.connection.exclusive) {
+        throw new Error("Cannot run outside of a transaction that has the database to itself (SQLite): the queries would wait for it to finish");
+      }
+    }
+    return ambientTransactions.exit(callback);
+  }
+
+  /**
+   * Run a callback in a nested transaction (a savepoint once one is open)
+   */
+  async transaction<T>(callback: (transaction: Transaction) => Promise<T>): Promise<T> {
+    await this.beginTransaction();
+    try {
+      const result = await callback(this);
+      await this.commit();
+      return result;
+    } catch (error) {
+      await this.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Current nesting depth; 0 when no transaction is open
+   */
+  get transactionLevel(): number {
+    return this.level;
+  }
+
+  query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    return this.connection.query<T>(sql, params);
+  }
+
+  execute(sql: string, params?: any[]): Promise<any> {
+    return this.connection.execute(sql, params);
+  }
+
+  stream<T = any>(sql: string, params?: any[]): AsyncIterable<T> {
+    return streamRows<T>(this.connection, sql, params);
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return this;
+  }
+
+  async beginTransaction(): Promise<void> {
+    if (this.level === 0) {
+      await this.connection.beginTransaction();
+    } else {
+      await this.connection.execute(`SAVEPOINT ${this.savepoint(this.level + 1)}`);
+    }
+    this.level++;
+  }
+
+  async commit(): Promise<void> {
+    if (this.level === 1) {
+      await this.connection.commit();
+    } else if (this.level > 1) {
+      await this.connection.execute(`RELEASE SAVEPOINT ${this.savepoint(this.level)}`);
+    }
+    this.level = Math.max(0, this.level - 1);
+  }
+
+  async rollback(): Promise<void> {
+    if (this.level === 1) {
+      await this.connection.rollback();
+    } else if (this.level > 1) {
+      await this.connection.execute(`ROLLBACK TO SAVEPOINT ${this.savepoint(this.level)}`);
+      await this.connection.execute(`RELEASE SAVEPOINT ${this.savepoint(this.level)}`);
+    }
+    this.level = Math.max(0, this.level - 1);
+  }
+
+  /**
+   * Hand the pinned connection back
+   */
+  async release(): Promise<void> {
+    await this.connection.release();
+  }
+
+  protected savepoint(level: number): string {
+    return `trans${level}`;
+  }
+}
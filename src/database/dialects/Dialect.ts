@@ -0,0 +1,215 @@
+// src/database/dialects/Dialect.ts
+import type { SchemaGrammar } from "../../schema/grammars/SchemaGrammar";
+
+/**
+ * A raw SQL fragment together with its bound parameters
+ */
+export interface SqlFragment {
+  sql: string;
+  params: any[];
+}
+
+/**
+ * Base SQL grammar shared by all dialects.
+ *
+ * Models always build their SQL with `?` placeholders and unquoted identifiers;
+ * the dialect of the active connection is responsible for turning that into
+ * something the driver understands.
+ *
+ * @example
+ * ```typescript
+ * class OracleDialect extends Dialect {
+ *   readonly name = "oracle";
+ *   protected readonly identifierQuote = '"';
+ *
+ *   placeholder(position: number): string {
+ *     return `:${position}`;
+ *   }
+ * }
+ * ```
+ */
+export abstract class Dialect {
+  /**
+   * Client name the dialect is registered under
+   */
+  abstract readonly name: string;
+
+  /**
+   * Character used to quote identifiers
+   */
+  protected abstract readonly identifierQuote: string;
+
+  /**
+   * Keyword used for auto-incrementing primary keys
+   */
+  readonly autoIncrementKeyword: string = "AUTO_INCREMENT";
+
+  /**
+   * Whether DDL statements can be rolled back inside a transaction
+   */
+  readonly supportsTransactionalDdl: boolean = false;
+
+  /**
+   * Most values a single statement can bind; bulk writes are split to stay under it
+   */
+  readonly maxParameters: number = 65535;
+
+  /**
+   * Placeholder for the parameter at the given (1-based) position
+   */
+  placeholder(position: number): string {
+    return "?";
+  }
+
+  /**
+   * Rewrite `?` placeholders into the dialect's placeholder syntax.
+   * Question marks inside quoted strings and identifiers are left alone.
+   */
+  formatQuery(sql: string): string {
+    if (this.placeholder(1) === "?") return sql;
+
+    let position = 0;
+    let quote: string | null = null;
+    let formatted = "";
+
+    for (const char of sql) {
+      if (quote) {
+        if (char === quote) quote = null;
+        formatted += char;
+      } else if (char === "'" || char === '"' || char === "`") {
+        quote = char;
+        formatted += char;
+      } else if (char === "?") {
+        formatted += this.placeholder(++position);
+      } else {
+        formatted += char;
+      }
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Quote a single identifier segment
+   */
+  wrapIdentifier(identifier: string): string {
+    if (identifier === "*") return identifier;
+    const quote = this.identifierQuote;
+    return `${quote}${identifier.split(quote).join(quote + quote)}${quote}`;
+  }
+
+  /**
+   * Quote a column or table reference such as `users.id` or `users as u`.
+   * Anything that is not a plain identifier (functions, expressions) is returned untouched.
+   */
+  wrap(value: string): string {
+    const aliasMatch = value.match(/^(.+?)\s+as\s+(.+)$/i);
+    if (aliasMatch) {
+      return `${this.wrap(aliasMatch[1])} AS ${this.wrapIdentifier(aliasMatch[2].trim())}`;
+    }
+
+    if (!/^[A-Za-z_][A-Za-z0-9_$]*(\.([A-Za-z_][A-Za-z0-9_$]*|\*))*$/.test(value.trim())) {
+      return value;
+    }
+
+    return value
+      .trim()
+      .split(".")
+      .map((segment) => this.wrapIdentifier(segment))
+      .join(".");
+  }
+
+  /**
+   * Compile a LIMIT/OFFSET clause
+   */
+  compileLimit(limit?: number | null, offset?: number | null): string {
+    const parts: string[] = [];
+    if (limit !== undefined && limit !== null) {
+      parts.push(`LIMIT ${limit}`);
+    }
+    if (offset) {
+      parts.push(`OFFSET ${offset}`);
+    }
+    return parts.join(" ");
+  }
+
+  /**
+   * Format a date for binding
+   */
+  formatDate(date: Date): string {
+    return date.toISOString();
+  }
+
+  /**
+   * Convert a JavaScript value into something the driver can bind
+   */
+  formatValue(value: any): any {
+    if (value instanceof Date) {
+      return this.formatDate(value);
+    }
+    return value;
+  }
+
+  /**
+   * Compile an INSERT statement for the given number of rows.
+   * When `returning` is given, dialects that support it return that column.
+   */
+  compileInsert(table: string, columns: string[], rowCount: number = 1, returning?: string): string {
+    const row = `(${columns.map(() => "?").join(", ")})`;
+    const rows = Array.from({ length: rowCount }, () => row).join(", ");
+    return `INSERT INTO ${this.wrap(table)} (${columns.map((column) => this.wrap(column)).join(", ")}) VALUES ${rows}`;
+  }
+
+  /**
+   * Compile an INSERT that updates `update` columns of rows conflicting on the `uniqueBy` columns,
+   * or leaves them untouched when `update` is empty
+   */
+  compileUpsert(table: string, columns: string[], rowCount: number, uniqueBy: string[], update: string[]): string {
+    const insert = this.compileInsert(table, columns, rowCount);
+    const conflict = `ON CONFLICT (${uniqueBy.map((column) => this.wrap(column)).join(", ")})`;
+    if (update.length === 0) {
+      return `${insert} ${conflict} DO NOTHING`;
+    }
+
+    const assignments = update.map((column) => `${this.wrap(column)} = excluded.${this.wrap(column)}`);
+    return `${insert} ${conflict} DO UPDATE SET ${assignments.join(", ")}`;
+  }
+
+  /**
+   * Extract the generated id from a driver result
+   */
+  abstract getInsertId(result: any, primaryKey?: string): number;
+
+  /**
+   * Extract the number of affected rows from a driver result
+   */
+  abstract getAffectedRows(result: any): number;
+
+  /**
+   * Grammar used by the schema builder to compile DDL
+   */
+  createSchemaGrammar(): SchemaGrammar {
+    throw new Error(`The schema builder is not supported by the ${this.name} dialect`);
+  }
+
+  /**
+   * Compile a JSON containment check
+   */
+  compileJsonContains(column: string, value: any): SqlFragment {
+    throw new Error(`JSON contains is not supported by the ${this.name} dialect`);
+  }
+
+  /**
+   * Compile a JSON array length comparison
+   */
+  compileJsonLength(column: string, operator: string, length: number): SqlFragment {
+    throw new Error(`JSON length is not supported by the ${this.name} dialect`);
+  }
+
+  /**
+   * Compile a full text search condition
+   */
+  compileFullText(columns: string[], query: string, mode: "natural" | "boolean"): SqlFragment {
+    throw new Error(`Full text search is not supported by the ${this.name} dialect`);
+  }
+}
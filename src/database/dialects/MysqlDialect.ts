@@ -0,0 +1,64 @@
+// src/database/dialects/MysqlDialect.ts
+import { Dialect, SqlFragment } from "./Dialect";
+import { SchemaGrammar } from "../../schema/grammars/SchemaGrammar";
+import { MysqlSchemaGrammar } from "../../schema/grammars/MysqlSchemaGrammar";
+
+export class MysqlDialect extends Dialect {
+  readonly name: string = "mysql";
+  protected readonly identifierQuote = "`";
+
+  compileLimit(limit?: number | null, offset?: number | null): string {
+    // MySQL cannot express OFFSET without a LIMIT
+    if ((limit === undefined || limit === null) && offset) {
+      return `LIMIT 18446744073709551615 OFFSET ${offset}`;
+    }
+    return super.compileLimit(limit, offset);
+  }
+
+  formatDate(date: Date): string {
+    return date.toISOString().slice(0, 19).replace("T", " ");
+  }
+
+  /**
+   * MySQL updates on any unique key conflict, so `uniqueBy` only matters to the other dialects
+   */
+  compileUpsert(table: string, columns: string[], rowCount: number, uniqueBy: string[], update: string[]): string {
+    // Assigning a key to itself leaves conflicting rows untouched
+    const assignments =
+      update.length > 0
+        ? update.map((column) => `${this.wrap(column)} = VALUES(${this.wrap(column)})`)
+        : [`${this.wrap(uniqueBy[0])} = ${this.wrap(uniqueBy[0])}`];
+    return `${this.compileInsert(table, columns, rowCount)} ON DUPLICATE KEY UPDATE ${assignments.join(", ")}`;
+  }
+
+  getInsertId(result: any): number {
+    // mysql2 returns [ResultSetHeader, fields]
+    const header = Array.isArray(result) ? result[0] : result;
+    return header?.insertId || 0;
+  }
+
+  getAffectedRows(result: any): number {
+    const header = Array.isArray(result) ? result[0] : result;
+    return header?.affectedRows || 0;
+  }
+
+  createSchemaGrammar(): SchemaGrammar {
+    return new MysqlSchemaGrammar(this);
+  }
+
+  compileJsonContains(column: string, value: any): SqlFragment {
+    return { sql: `JSON_CONTAINS(${this.wrap(column)}, ?)`, params: [JSON.stringify(value)] };
+  }
+
+  compileJsonLength(column: string, operator: string, length: number): SqlFragment {
+    return { sql: `JSON_LENGTH(${this.wrap(column)}) ${operator} ?`, params: [length] };
+  }
+
+  compileFullText(columns: string[], query: string, mode: "natural" | "boolean"): SqlFragment {
+    const modifier = mode === "boolean" ? " IN BOOLEAN MODE" : "";
+    return {
+      sql: `MATCH(${columns.map((column) => this.wrap(column)).join(", ")}) AGAINST(?${modifier})`,
+      params: [query],
+    };
+  }
+}
@@ -0,0 +1,49 @@
+// src/database/dialects/PostgresDialect.ts
+import { Dialect, SqlFragment } from "./Dialect";
+import { SchemaGrammar } from "../../schema/grammars/SchemaGrammar";
+import { PostgresSchemaGrammar } from "../../schema/grammars/PostgresSchemaGrammar";
+
+export class PostgresDialect extends Dialect {
+  readonly name: string = "postgres";
+  protected readonly identifierQuote = '"';
+  readonly autoIncrementKeyword: string = "GENERATED BY DEFAULT AS IDENTITY";
+  readonly supportsTransactionalDdl: boolean = true;
+
+  placeholder(position: number): string {
+    return `$${position}`;
+  }
+
+  compileInsert(table: string, columns: string[], rowCount: number = 1, returning?: string): string {
+    const sql = super.compileInsert(table, columns, rowCount);
+    return returning ? `${sql} RETURNING ${this.wrap(returning)}` : sql;
+  }
+
+  getInsertId(result: any, primaryKey?: string): number {
+    const row = result?.rows?.[0];
+    if (!row) return 0;
+    const id = primaryKey ? row[primaryKey] : Object.values(row)[0];
+    return id === undefined || id === null ? 0 : Number(id);
+  }
+
+  getAffectedRows(result: any): number {
+    return result?.rowCount || 0;
+  }
+
+  createSchemaGrammar(): SchemaGrammar {
+    return new PostgresSchemaGrammar(this);
+  }
+
+  compileJsonContains(column: string, value: any): SqlFragment {
+    return { sql: `${this.wrap(column)}::jsonb @> ?::jsonb`, params: [JSON.stringify(value)] };
+  }
+
+  compileJsonLength(column: string, operator: string, length: number): SqlFragment {
+    return { sql: `jsonb_array_length(${this.wrap(column)}::jsonb) ${operator} ?`, params: [length] };
+  }
+
+  compileFullText(columns: string[], query: string, mode: "natural" | "boolean"): SqlFragment {
+    const document = columns.map((column) => `coalesce(${this.wrap(column)}::text, '')`).join(" || ' ' || ");
+    const parser = mode === "boolean" ? "to_tsquery" : "plainto_tsquery";
+    return { sql: `to_tsvector(${document}) @@ ${parser}(?)`, params: [query] };
+  }
+}
@@ -0,0 +1,46 @@
+// src/database/dialects/SqliteDialect.ts
+import { Dialect, SqlFragment } from "./Dialect";
+import { SchemaGrammar } from "../../schema/grammars/SchemaGrammar";
+import { SqliteSchemaGrammar } from "../../schema/grammars/SqliteSchemaGrammar";
+
+export class SqliteDialect extends Dialect {
+  readonly name: string = "sqlite";
+  protected readonly identifierQuote = '"';
+  readonly autoIncrementKeyword: string = "AUTOINCREMENT";
+  readonly supportsTransactionalDdl: boolean = true;
+  /**
+   * SQLite before 3.32 binds at most 999 values (32766 since)
+   */
+  readonly maxParameters: number = 999;
+
+  compileLimit(limit?: number | null, offset?: number | null): string {
+    // SQLite cannot express OFFSET without a LIMIT
+    if ((limit === undefined || limit === null) && offset) {
+      return `LIMIT -1 OFFSET ${offset}`;
+    }
+    return super.compileLimit(limit, offset);
+  }
+
+  getInsertId(result: any): number {
+    return result?.lastID || 0;
+  }
+
+  getAffectedRows(result: any): number {
+    return result?.changes || 0;
+  }
+
+  createSchemaGrammar(): SchemaGrammar {
+    return new SqliteSchemaGrammar(this);
+  }
+
+  compileJsonContains(column: string, value: any): SqlFragment {
+    return {
+      sql: `EXISTS (SELECT 1 FROM json_each(${this.wrap(column)}) WHERE json_each.value = ?)`,
+      params: [typeof value === "object" && value !== null ? JSON.stringify(value) : value],
+    };
+  }
+
+  compileJsonLength(column: string, operator: string, length: number): SqlFragment {
+    return { sql: `json_array_length(${this.wrap(column)}) ${operator} ?`, params: [length] };
+  }
+}
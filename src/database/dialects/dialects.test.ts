@@ -0,0 +1,46 @@
+// src/database/dialects/dialects.test.ts
+import { MysqlDialect, PostgresDialect, SqliteDialect } from ".";
+
+describe("dialects", () => {
+  const mysql = new MysqlDialect();
+  const sqlite = new SqliteDialect();
+  const postgres = new PostgresDialect();
+
+  it("quotes identifiers in the dialect's style", () => {
+    expect(mysql.wrap("users.id")).toBe("`users`.`id`");
+    expect(sqlite.wrap("users.*")).toBe('"users".*');
+    expect(postgres.wrap("users.name as n")).toBe('"users"."name" AS "n"');
+    expect(postgres.wrap("COUNT(*)")).toBe("COUNT(*)");
+  });
+
+  it("numbers PostgreSQL placeholders, skipping quoted question marks", () => {
+    expect(mysql.formatQuery("SELECT * FROM t WHERE a = ? AND b = ?")).toBe("SELECT * FROM t WHERE a = ? AND b = ?");
+    expect(postgres.formatQuery("SELECT * FROM t WHERE a = ? AND b = '?' AND c = ?")).toBe(
+      "SELECT * FROM t WHERE a = $1 AND b = '?' AND c = $2"
+    );
+  });
+
+  it("compiles inserts with RETURNING on PostgreSQL only", () => {
+    expect(mysql.compileInsert("users", ["name"], 2, "id")).toBe("INSERT INTO `users` (`name`) VALUES (?), (?)");
+    expect(postgres.compileInsert("users", ["name"], 1, "id")).toBe('INSERT INTO "users" ("name") VALUES (?) RETURNING "id"');
+  });
+
+  it("compiles upserts for each dialect", () => {
+    expect(mysql.compileUpsert("users", ["email", "name"], 1, ["email"], ["name"])).toBe(
+      "INSERT INTO `users` (`email`, `name`) VALUES (?, ?) ON DUPLICATE KEY UPDATE `name` = VALUES(`name`)"
+    );
+    expect(sqlite.compileUpsert("users", ["email", "name"], 1, ["email"], ["name"])).toBe(
+      'INSERT INTO "users" ("email", "name") VALUES (?, ?) ON CONFLICT ("email") DO UPDATE SET "name" = excluded."name"'
+    );
+    expect(postgres.compileUpsert("users", ["email"], 1, ["email"], [])).toBe(
+      'INSERT INTO "users" ("email") VALUES (?) ON CONFLICT ("email") DO NOTHING'
+    );
+  });
+
+  it("reads insert ids and affected rows from driver results", () => {
+    expect(postgres.getInsertId({ rows: [{ id: "7" }] }, "id")).toBe(7);
+    expect(postgres.getAffectedRows({ rowCount: 3 })).toBe(3);
+    expect(sqlite.getInsertId({ lastID: 4 })).toBe(4);
+    expect(sqlite.getAffectedRows({ changes: 2 })).toBe(2);
+  });
+});
@@ -0,0 +1,4 @@
+export * from "./Dialect";
+export * from "./MysqlDialect";
+export * from "./SqliteDialect";
+export * from "./PostgresDialect";
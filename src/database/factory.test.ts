@@ -0,0 +1,107 @@
+// src/database/factory.test.ts
+import { EventEmitter } from "events";
+import { Readable } from "stream";
+import { createPool } from "mysql2/promise";
+import { DatabaseFactory } from "./factory";
+
+jest.mock("mysql2/promise", () => ({ createPool: jest.fn() }));
+
+/**
+ * A query of the fake connection, streaming like mysql2's Query#stream()
+ */
+class FakeQuery extends EventEmitter {
+  constructor(private readonly core: FakeCore, readonly rows: number[]) {
+    super();
+  }
+
+  stream(): Readable {
+    const stream = new Readable({ objectMode: true, read: () => this.core.resume() });
+    this.on("result", (row) => {
+      if (!stream.push(row)) this.core.pause();
+    });
+    this.on("end", () => stream.push(null));
+    return stream;
+  }
+}
+
+/**
+ * Callback connection delivering rows while it is not paused
+ */
+class FakeCore extends EventEmitter {
+  paused = false;
+  current: FakeQuery | null = null;
+
+  query(): FakeQuery {
+    this.current = new FakeQuery(this, Array.from({ length: 100 }, (_, index) => index + 1));
+    setImmediate(() => this.flush());
+    return this.current;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    setImmediate(() => this.flush());
+  }
+
+  protected flush(): void {
+    const query = this.current;
+    if (!query) return;
+    while (!this.paused && query.rows.length > 0) {
+      query.emit("result", query.rows.shift());
+    }
+    if (query.rows.length === 0) {
+      this.current = null;
+      query.emit("end");
+    }
+  }
+}
+
+describe("MySQL streaming", () => {
+  let core: FakeCore;
+  let conn: { connection: FakeCore; release: jest.Mock; destroy: jest.Mock };
+
+  beforeEach(() => {
+    core = new FakeCore();
+    conn = { connection: core, release: jest.fn(), destroy: jest.fn() };
+    (createPool as jest.Mock).mockReturnValue({ getConnection: async () => conn });
+  });
+
+  const connect = () => DatabaseFactory.createConnection({ client: "mysql", connection: {} });
+
+  async function take(rows: AsyncIterable<number>, count: number): Promise<number[]> {
+    const taken: number[] = [];
+    for await (const row of rows) {
+      taken.push(row);
+      if (taken.length === count) break;
+    }
+    return taken;
+  }
+
+  it("releases the connection once every row was read", async () => {
+    const connection = await connect();
+
+    expect(await take(connection.stream!<number>("SELECT * FROM t"), 1000)).toHaveLength(100);
+    expect(conn.release).toHaveBeenCalled();
+    expect(conn.destroy).not.toHaveBeenCalled();
+  });
+
+  it("destroys a pooled connection left with a pending query", async () => {
+    const connection = await connect();
+
+    expect(await take(connection.stream!<number>("SELECT * FROM t"), 2)).toEqual([1, 2]);
+    expect(conn.destroy).toHaveBeenCalled();
+    expect(core.current).not.toBeNull();
+  });
+
+  it("drains the pending query of a pinned connection instead", async () => {
+    const pinned = await (await connect()).acquireConnection();
+
+    expect(await take(pinned.stream!<number>("SELECT * FROM t"), 2)).toEqual([1, 2]);
+    expect(conn.destroy).not.toHaveBeenCalled();
+    expect(core.current).toBeNull();
+    expect(core.paused).toBe(false);
+  });
+});
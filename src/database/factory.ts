@@ -1,28 +1,159 @@
 // src/database/factory.ts
 import { Pool, PoolConnection, createPool } from "mysql2/promise";
+import type { Connection as MysqlCoreConnection } from "mysql2";
 import sqlite3 from "sqlite3";
 import { open, Database } from "sqlite";
-import { DatabaseConfig, DatabaseConnection, MysqlConnectionConfig, SqliteConnectionConfig } from "../types/interfaces";
+import { Pool as PgPool, PoolClient as PgPoolClient } from "pg";
+import {
+  DatabaseConfig,
+  DatabaseConnection,
+  DialectRegistration,
+  MysqlConnectionConfig,
+  PostgresConnectionConfig,
+  ReplicationConfig,
+  SqliteConnectionConfig,
+} from "../types/interfaces";
+import { Dialect, MysqlDialect, PostgresDialect, SqliteDialect } from "./dialects";
+import { LoggedConnection } from "./LoggedConnection";
+import { ReadWriteConnection } from "./ReadWriteConnection";
 
 export class DatabaseFactory {
-  static async createConnection(config: DatabaseConfig): Promise<DatabaseConnection> {
-    switch (config.client) {
-      case "mysql":
-        return new MysqlAdapter(config.connection as MysqlConnectionConfig);
-      case "sqlite":
-        const adapter = new SqliteAdapter(config.connection as SqliteConnectionConfig);
+  private static dialects: Record<string, DialectRegistration> = {
+    mysql: {
+      dialect: new MysqlDialect(),
+      connect: async (config, dialect) => new MysqlAdapter(config, dialect),
+    },
+    sqlite: {
+      dialect: new SqliteDialect(),
+      connect: async (config, dialect) => {
+        const adapter = new SqliteAdapter(config, dialect);
         await adapter.connect(); // 👈 make sure connection is opened
         return adapter;
-      default:
-        throw new Error(`Unsupported database client: ${config.client}`);
+      },
+    },
+    postgres: {
+      dialect: new PostgresDialect(),
+      connect: async (config, dialect) => new PostgresAdapter(config, dialect),
+    },
+  };
+
+  /**
+   * Register a custom dialect so it can be used as `client` in the config
+   *
+   * @example
+   * ```typescript
+   * DatabaseFactory.registerDialect("oracle", {
+   *   dialect: new OracleDialect(),
+   *   connect: async (config, dialect) => new OracleAdapter(config, dialect),
+   * });
+   * ```
+   */
+  static registerDialect(client: string, registration: DialectRegistration): void {
+    this.dialects[client] = registration;
+  }
+
+  /**
+   * Get the dialect registered for a client
+   */
+  static getDialect(client: string): Dialect {
+    const registration = this.dialects[client];
+    if (!registration) {
+      throw new Error(`Unsupported database client: ${client}`);
+    }
+    return registration.dialect;
+  }
+
+  /**
+   * Open a connection, reporting its queries under the given name. With `read`
+   * hosts configured this is a ReadWriteConnection over a primary and one
+   * connection per replica.
+   */
+  static async createConnection(config: DatabaseConfig, name: string = "default"): Promise<DatabaseConnection> {
+    const registration = this.dialects[config.client];
+    if (!registration) {
+      throw new Error(`Unsupported database client: ${config.client}`);
+    }
+
+    const { read, write, readStrategy, sticky, ...base } = config.connection as ReplicationConfig;
+    let connection: DatabaseConnection;
+    if (!read || read.length === 0) {
+      connection = await registration.connect(write ? { ...base, ...write } : config.connection, registration.dialect);
+    } else {
+      const writeConnection = await registration.connect({ ...base, ...write }, registration.dialect);
+      const readConnections = await Promise.all(read.map((replica) => registration.connect({ ...base, ...replica }, registration.dialect)));
+      connection = new ReadWriteConnection(writeConnection, readConnections, { readStrategy, sticky });
+    }
+
+    return new LoggedConnection(connection, name, config.logging);
+  }
+}
+
+const POOLED_TRANSACTION_ERROR = "Transactions need a dedicated connection. Use BaseModel.transaction() instead";
+
+/**
+ * Rows fetched per round trip when streaming from PostgreSQL
+ */
+const POSTGRES_CURSOR_BATCH = 500;
+let postgresCursors = 0;
+
+/**
+ * Stream a query through mysql2's row stream; the connection pauses while rows are not consumed.
+ *
+ * Stopping early (a `break` or an error in the loop) leaves the rest of the result
+ * pending on the paused connection. With "destroy" the connection is thrown away, so
+ * it must not be released to the pool afterwards; with "drain" the remaining rows are
+ * read and discarded, keeping the connection (and its transaction) usable.
+ */
+async function* streamMysqlRows<T>(conn: PoolConnection, sql: string, params: any[] | undefined, onStop: "destroy" | "drain"): AsyncGenerator<T> {
+  // The promise wrapper exposes the callback connection, which has the streaming API
+  const core = conn.connection as unknown as MysqlCoreConnection;
+  const query = core.query(sql, params);
+  let ended = false;
+  query.once("end", () => (ended = true));
+
+  try {
+    yield* query.stream({ objectMode: true }) as AsyncIterable<T>;
+  } finally {
+    if (!ended && onStop === "destroy") {
+      conn.destroy();
+    } else if (!ended) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          core.removeListener("error", done);
+          resolve();
+        };
+        // The destroyed row stream would pause the connection again on every row
+        query.removeAllListeners("result");
+        query.once("end", done);
+        core.once("error", done);
+        core.resume();
+      });
+    }
+  }
+}
+
+/**
+ * Stream a query through a server-side cursor. It must run inside a transaction.
+ */
+async function* streamPostgresRows<T>(client: PgPoolClient, sql: string, params?: any[]): AsyncGenerator<T> {
+  const cursor = `orm_cursor_${++postgresCursors}`;
+  await client.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${sql}`, params);
+  try {
+    while (true) {
+      const { rows } = await client.query(`FETCH ${POSTGRES_CURSOR_BATCH} FROM ${cursor}`);
+      yield* rows as T[];
+      if (rows.length < POSTGRES_CURSOR_BATCH) return;
     }
+  } finally {
+    // After a failed statement the transaction is aborted and the cursor already gone
+    await client.query(`CLOSE ${cursor}`).catch(() => undefined);
   }
 }
 
 class MysqlAdapter implements DatabaseConnection {
   private pool: Pool;
 
-  constructor(config: MysqlConnectionConfig) {
+  constructor(config: MysqlConnectionConfig, public readonly dialect: Dialect) {
     this.pool = createPool(config);
   }
 
@@ -45,21 +176,30 @@ class MysqlAdapter implements DatabaseConnection {
     }
   }
 
-  async beginTransaction(): Promise<void> {
+  async *stream<T = any>(sql: string, params?: any[]): AsyncGenerator<T> {
     const conn = await this.pool.getConnection();
-    await conn.beginTransaction();
+    try {
+      yield* streamMysqlRows<T>(conn, sql, params, "destroy");
+    } finally {
+      // No-op when the connection was destroyed
+      conn.release();
+    }
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return new MysqlPinnedConnection(await this.pool.getConnection(), this.dialect);
+  }
+
+  async beginTransaction(): Promise<void> {
+    throw new Error(POOLED_TRANSACTION_ERROR);
   }
 
   async commit(): Promise<void> {
-    const conn = await this.pool.getConnection();
-    await conn.commit();
-    conn.release();
+    throw new Error(POOLED_TRANSACTION_ERROR);
   }
 
   async rollback(): Promise<void> {
-    const conn = await this.pool.getConnection();
-    await conn.rollback();
-    conn.release();
+    throw new Error(POOLED_TRANSACTION_ERROR);
   }
 
   async release(): Promise<void> {
@@ -67,12 +207,77 @@ class MysqlAdapter implements DatabaseConnection {
   }
 }
 
+/**
+ * A single pooled MySQL connection, returned to the pool on release()
+ */
+class MysqlPinnedConnection implements DatabaseConnection {
+  constructor(private conn: PoolConnection, public readonly dialect: Dialect) {}
+
+  async query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    const [rows, fields] = await this.conn.query(sql, params);
+    return [rows as T[], fields];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<any> {
+    return this.conn.execute(sql, params);
+  }
+
+  /**
+   * A pinned connection usually holds a transaction, so an unfinished stream is drained rather than destroyed
+   */
+  stream<T = any>(sql: string, params?: any[]): AsyncIterable<T> {
+    return streamMysqlRows<T>(this.conn, sql, params, "drain");
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return this;
+  }
+
+  async beginTransaction(): Promise<void> {
+    await this.conn.beginTransaction();
+  }
+
+  async commit(): Promise<void> {
+    await this.conn.commit();
+  }
+
+  async rollback(): Promise<void> {
+    await this.conn.rollback();
+  }
+
+  async release(): Promise<void> {
+    this.conn.release();
+  }
+}
+
+/**
+ * Step through a prepared statement, reading the next row only when asked for
+ */
+async function* streamSqliteRows<T>(db: Database, sql: string, params?: any[]): AsyncGenerator<T> {
+  const statement = await db.prepare(sql, params);
+  try {
+    let row: T | undefined;
+    while ((row = await statement.get<T>()) !== undefined) {
+      yield row;
+    }
+  } finally {
+    await statement.finalize();
+  }
+}
+
 class SqliteAdapter implements DatabaseConnection {
   private db: Database;
   private config: SqliteConnectionConfig;
-  constructor(config: SqliteConnectionConfig) {
+  /**
+   * Settles when the pinned connection currently holding the database is released
+   */
+  private pinned: Promise<void> | null = null;
+  private busyTimeout: number;
+
+  constructor(config: SqliteConnectionConfig, public readonly dialect: Dialect) {
     this.db = {} as Database; // Will be initialized in connect()
     this.config = config;
+    this.busyTimeout = config.busyTimeout ?? 5000;
   }
 
   async connect(): Promise<void> {
@@ -83,17 +288,64 @@ class SqliteAdapter implements DatabaseConnection {
   }
 
   async query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
-    console.log(`Executing SQL: "${sql}" with params: ${params ? JSON.stringify(params) : "[]"}`);
-
+    await this.waitForRelease();
     const result = (await this.db.all<T>(sql, params)) as T[];
     return [result, {}];
   }
 
   async execute(sql: string, params?: any[]): Promise<any> {
-    console.log(`Executing SQL: "${sql}" with params: ${params ? JSON.stringify(params) : "[]"}`);
+    await this.waitForRelease();
     return this.db.run(sql, params);
   }
 
+  async *stream<T = any>(sql: string, params?: any[]): AsyncGenerator<T> {
+    await this.waitForRelease();
+    yield* streamSqliteRows<T>(this.db, sql, params);
+  }
+
+  /**
+   * SQLite has a single connection, so a pinned connection (a transaction) gets it
+   * to itself: other callers wait until it is released after COMMIT or ROLLBACK.
+   * Releasing it must not close the database.
+   */
+  async acquireConnection(): Promise<DatabaseConnection> {
+    // No await between the check and taking the lock, so only one waiter gets it
+    while (this.pinned) {
+      await this.waitForRelease();
+    }
+
+    let unlock!: () => void;
+    this.pinned = new Promise((resolve) => (unlock = resolve));
+    return new SqlitePinnedConnection(this.db, this.dialect, () => {
+      this.pinned = null;
+      unlock();
+    });
+  }
+
+  /**
+   * Wait for the pinned connection to be released, for at most busyTimeout. Code
+   * inside a transaction that queries the database outside of it would otherwise
+   * wait for itself forever.
+   */
+  protected async waitForRelease(): Promise<void> {
+    if (!this.pinned) return;
+
+    let timer!: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.busyTimeout}ms waiting for a transaction to release the SQLite database`)),
+        this.busyTimeout
+      );
+    });
+    try {
+      while (this.pinned) {
+        await Promise.race([this.pinned, timeout]);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   async beginTransaction(): Promise<void> {
     await this.db.run("BEGIN TRANSACTION");
   }
@@ -110,3 +362,148 @@ class SqliteAdapter implements DatabaseConnection {
     await this.db.close();
   }
 }
+
+/**
+ * Exclusive use of the SQLite database until release()
+ */
+class SqlitePinnedConnection implements DatabaseConnection {
+  readonly exclusive = true;
+  private released = false;
+
+  constructor(private db: Database, public readonly dialect: Dialect, private unlock: () => void) {}
+
+  async query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    return [(await this.db.all<T>(sql, params)) as T[], {}];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<any> {
+    return this.db.run(sql, params);
+  }
+
+  stream<T = any>(sql: string, params?: any[]): AsyncIterable<T> {
+    return streamSqliteRows<T>(this.db, sql, params);
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return this;
+  }
+
+  async beginTransaction(): Promise<void> {
+    await this.db.run("BEGIN TRANSACTION");
+  }
+
+  async commit(): Promise<void> {
+    await this.db.run("COMMIT");
+  }
+
+  async rollback(): Promise<void> {
+    await this.db.run("ROLLBACK");
+  }
+
+  async release(): Promise<void> {
+    // The database stays open for the rest of the application; it is only handed back
+    if (this.released) return;
+    this.released = true;
+    this.unlock();
+  }
+}
+
+class PostgresAdapter implements DatabaseConnection {
+  private pool: PgPool;
+
+  constructor(config: PostgresConnectionConfig, public readonly dialect: Dialect) {
+    const { driver, ...poolConfig } = config;
+    this.pool = driver ? new driver.Pool(poolConfig) : new PgPool(poolConfig);
+  }
+
+  async query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    const result = await this.pool.query(sql, params);
+    return [result.rows as T[], result.fields];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<any> {
+    return this.pool.query(sql, params);
+  }
+
+  /**
+   * Stream through a cursor in a short read-only transaction on a reserved client
+   */
+  async *stream<T = any>(sql: string, params?: any[]): AsyncGenerator<T> {
+    const client = await this.pool.connect();
+    let committed = false;
+    try {
+      await client.query("BEGIN READ ONLY");
+      yield* streamPostgresRows<T>(client, sql, params);
+      await client.query("COMMIT");
+      committed = true;
+    } finally {
+      if (!committed) {
+        await client.query("ROLLBACK").catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return new PostgresPinnedConnection(await this.pool.connect(), this.dialect);
+  }
+
+  async beginTransaction(): Promise<void> {
+    throw new Error(POOLED_TRANSACTION_ERROR);
+  }
+
+  async commit(): Promise<void> {
+    throw new Error(POOLED_TRANSACTION_ERROR);
+  }
+
+  async rollback(): Promise<void> {
+    throw new Error(POOLED_TRANSACTION_ERROR);
+  }
+
+  async release(): Promise<void> {
+    // Connection pooling handles release automatically
+  }
+}
+
+/**
+ * A single pooled PostgreSQL client, returned to the pool on release()
+ */
+class PostgresPinnedConnection implements DatabaseConnection {
+  constructor(private client: PgPoolClient, public readonly dialect: Dialect) {}
+
+  async query<T = any>(sql: string, params?: any[]): Promise<[T[], any]> {
+    const result = await this.client.query(sql, params);
+    return [result.rows as T[], result.fields];
+  }
+
+  async execute(sql: string, params?: any[]): Promise<any> {
+    return this.client.query(sql, params);
+  }
+
+  /**
+   * Pinned clients belong to a transaction, which the cursor lives in
+   */
+  stream<T = any>(sql: string, params?: any[]): AsyncIterable<T> {
+    return streamPostgresRows<T>(this.client, sql, params);
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return this;
+  }
+
+  async beginTransaction(): Promise<void> {
+    await this.client.query("BEGIN");
+  }
+
+  async commit(): Promise<void> {
+    await this.client.query("COMMIT");
+  }
+
+  async rollback(): Promise<void> {
+    await this.client.query("ROLLBACK");
+  }
+
+  async release(): Promise<void> {
+    this.client.release();
+  }
+}
@@ -0,0 +1,15 @@
+// src/database/stream.ts
+import { DatabaseConnection } from "../types/interfaces";
+
+/**
+ * Rows of a query one at a time: streamed when the connection supports it, else read at once
+ */
+export async function* streamRows<T = any>(connection: DatabaseConnection, sql: string, params?: any[]): AsyncGenerator<T> {
+  if (connection.stream) {
+    yield* connection.stream<T>(sql, params);
+    return;
+  }
+
+  const [rows] = await connection.query<T>(sql, params);
+  yield* rows;
+}
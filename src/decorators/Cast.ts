@@ -0,0 +1,27 @@
+import { BaseModel } from "../BaseModel";
+import { CastDefinition } from "../casts/Cast";
+
+/**
+ * Decorator to cast an attribute when it is read from and written to the database
+ * @param definition Built-in cast name, `{ enum }` or a custom cast
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseModel {
+ *   @Cast('json')
+ *   settings: Record<string, any>;
+ *
+ *   @Cast({ enum: Role })
+ *   role: Role;
+ * }
+ * ```
+ */
+export function Cast(definition: CastDefinition) {
+  return function (target: any, propertyKey: string) {
+    const model = target.constructor as typeof BaseModel;
+    model.config = {
+      ...model.config,
+      casts: { ...model.config.casts, [propertyKey]: definition },
+    };
+  };
+}
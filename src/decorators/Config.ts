@@ -21,6 +21,8 @@ export function ModelConfig(config: Partial<ModelConfig>) {
     constructor.config = {
       ...constructor.config,
       ...config,
+      // Keep casts declared with @Cast on properties
+      casts: { ...constructor.config.casts, ...config.casts },
     };
   };
 }
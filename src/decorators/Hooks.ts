@@ -1,39 +1,56 @@
+import { BaseModel } from "../BaseModel";
+import { ModelHook } from "../types/interfaces";
+
 /**
- * Decorator to register a before create hook
+ * Base lifecycle hook decorator
  */
-export function BeforeCreate() {
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-    const originalMethod = descriptor.value;
-
-    target.constructor.beforeCreate = async function (data: any) {
-      await originalMethod.call(this, data);
+function createHookDecorator(hook: ModelHook) {
+  return function () {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+      const hooks = (target.constructor as typeof BaseModel).ownRegistry("hooks");
+      hooks[hook] = [...(hooks[hook] || []), propertyKey];
     };
   };
 }
 
+/**
+ * Decorator to register a before create hook. The method receives the data
+ * being inserted and the record; `this` is the record too: the instance
+ * itself when saved with save(), else a new one holding the data.
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseModel {
+ *   @BeforeCreate()
+ *   async hashPassword(data: Record<string, any>) {
+ *     data.password = await hash(data.password);
+ *   }
+ * }
+ * ```
+ */
+export const BeforeCreate = createHookDecorator("beforeCreate");
+
 /**
  * Decorator to register an after create hook
  */
-export function AfterCreate() {
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-    const originalMethod = descriptor.value;
+export const AfterCreate = createHookDecorator("afterCreate");
 
-    target.constructor.afterCreate = async function (data: any) {
-      await originalMethod.call(this, data);
-    };
-  };
-}
+/**
+ * Decorator to register a before update hook
+ */
+export const BeforeUpdate = createHookDecorator("beforeUpdate");
 
-// Similar decorators for update/delete hooks
-export function BeforeUpdate() {
-  /* ... */
-}
-export function AfterUpdate() {
-  /* ... */
-}
-export function BeforeDelete() {
-  /* ... */
-}
-export function AfterDelete() {
-  /* ... */
-}
+/**
+ * Decorator to register an after update hook
+ */
+export const AfterUpdate = createHookDecorator("afterUpdate");
+
+/**
+ * Decorator to register a before delete hook
+ */
+export const BeforeDelete = createHookDecorator("beforeDelete");
+
+/**
+ * Decorator to register an after delete hook
+ */
+export const AfterDelete = createHookDecorator("afterDelete");
@@ -6,22 +6,24 @@ import { Relation, RelationType } from "../types/interfaces";
  * Base relationship decorator
  */
 function createRelationDecorator(type: RelationType) {
-  return function (options?: Omit<Relation, "type" | "model">) {
+  return function (options?: Omit<Relation, "type">) {
     return function (target: any, propertyKey: string) {
       const model = target.constructor as typeof BaseModel;
 
-      if (!model.relations) {
-        model.relations = {};
+      if (type === RelationType.MORPH_TO) {
+        model.addRelation(propertyKey, { type, ...options, model: undefined, morphName: options?.morphName || propertyKey });
+        return;
       }
 
-      // Get the type of the property to determine the related model
+      // Get the type of the property to determine the related model. Array
+      // properties (hasMany, belongsToMany...) have to name it with `model`.
       const designType = Reflect.getMetadata("design:type", target, propertyKey);
 
-      model.relations[propertyKey] = {
+      model.addRelation(propertyKey, {
         type,
         model: designType,
         ...options,
-      };
+      });
     };
   };
 }
@@ -45,7 +47,7 @@ export const HasOne = createRelationDecorator(RelationType.HAS_ONE);
  * @example
  * ```typescript
  * class User extends BaseModel {
- *   @HasMany()
+ *   @HasMany({ model: Post })
  *   posts: Post[];
  * }
  * ```
@@ -71,10 +73,88 @@ export const BelongsTo = createRelationDecorator(RelationType.BELONGS_TO);
  * @example
  * ```typescript
  * class User extends BaseModel {
- *   @BelongsToMany({ pivotTable: 'user_roles' })
+ *   @BelongsToMany({ model: Role, pivotTable: 'user_roles' })
  *   roles: Role[];
  * }
  * ```
  */
-
 export const BelongsToMany = createRelationDecorator(RelationType.BELONGS_TO_MANY);
+
+/**
+ * Decorator for the owning side of a polymorphic relation, named by its
+ * `{property}_type` and `{property}_id` columns unless `morphName` is given
+ *
+ * @example
+ * ```typescript
+ * class Comment extends BaseModel {
+ *   @MorphTo()
+ *   commentable: Post | Video;
+ * }
+ * ```
+ */
+export const MorphTo = createRelationDecorator(RelationType.MORPH_TO);
+
+/**
+ * Decorator for polymorphic one-to-one relationship
+ *
+ * @example
+ * ```typescript
+ * class Post extends BaseModel {
+ *   @MorphOne({ morphName: 'imageable' })
+ *   image: Image;
+ * }
+ * ```
+ */
+export const MorphOne = createRelationDecorator(RelationType.MORPH_ONE);
+
+/**
+ * Decorator for polymorphic one-to-many relationship
+ *
+ * @example
+ * ```typescript
+ * class Post extends BaseModel {
+ *   @MorphMany({ model: Comment, morphName: 'commentable' })
+ *   comments: Comment[];
+ * }
+ * ```
+ */
+export const MorphMany = createRelationDecorator(RelationType.MORPH_MANY);
+
+/**
+ * Decorator for polymorphic many-to-many relationship, through the `{morphName}s` pivot table by default
+ *
+ * @example
+ * ```typescript
+ * class Post extends BaseModel {
+ *   @MorphToMany({ model: Tag, morphName: 'taggable' })
+ *   tags: Tag[];
+ * }
+ * ```
+ */
+export const MorphToMany = createRelationDecorator(RelationType.MORPH_TO_MANY);
+
+/**
+ * Decorator for hasManyThrough relationship
+ *
+ * @example
+ * ```typescript
+ * class Country extends BaseModel {
+ *   @HasManyThrough({ model: Post, through: User })  // users.country_id, posts.user_id
+ *   posts: Post[];
+ * }
+ * ```
+ */
+export const HasManyThrough = createRelationDecorator(RelationType.HAS_MANY_THROUGH);
+
+/**
+ * Decorator for hasOneThrough relationship
+ *
+ * @example
+ * ```typescript
+ * class Mechanic extends BaseModel {
+ *   @HasOneThrough({ through: Car, firstKey: 'mechanic_id', secondKey: 'car_id' })
+ *   owner: Owner;
+ * }
+ * ```
+ */
+export const HasOneThrough = createRelationDecorator(RelationType.HAS_ONE_THROUGH);
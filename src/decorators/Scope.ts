@@ -0,0 +1,32 @@
+import { BaseModel, SCOPE_METHOD } from "../BaseModel";
+
+/**
+ * Decorator to register a method as a local scope. `this` is the query; the
+ * method is chainable whether or not it returns it.
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseModel {
+ *   @Scope()
+ *   olderThan(age: number): this {
+ *     return this.where('age', '>', age);
+ *   }
+ * }
+ *
+ * await new User().olderThan(30).get();
+ * ```
+ */
+export function Scope() {
+  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    const model = target.constructor as typeof BaseModel;
+    const method = descriptor.value;
+
+    descriptor.value = function (this: BaseModel, ...args: any[]) {
+      const result = method.apply(this, args);
+      return result === undefined ? this : result;
+    };
+    Object.defineProperty(descriptor.value, SCOPE_METHOD, { value: true });
+
+    model.ownRegistry("scopes")[propertyKey] = (query: BaseModel, ...args: any[]) => method.apply(query, args);
+  };
+}
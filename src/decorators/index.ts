@@ -5,3 +5,5 @@ export * from "./Relations";
 export * from "./Config";
 export * from "./Validate";
 export * from "./Hooks";
+export * from "./Cast";
+export * from "./Scope";
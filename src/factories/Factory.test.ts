@@ -0,0 +1,84 @@
+// src/factories/Factory.test.ts
+import { BaseModel } from "../BaseModel";
+import { Schema } from "../schema";
+import { describeEachConnection } from "../testing/connections";
+import { defineFactory, factory } from "./Factory";
+
+class User extends BaseModel {
+  public table = "users";
+  public allowedFields = ["name", "role"];
+}
+
+class Post extends BaseModel {
+  public table = "posts";
+  public allowedFields = ["user_id", "title"];
+}
+
+class Admin extends User {}
+
+Admin.addGlobalScope("admins", (query) => query.where("role", "admin"));
+User.hasMany({ model: Post, foreignKey: "user_id", as: "posts" });
+Post.belongsTo({ model: User, foreignKey: "user_id", as: "user" });
+
+defineFactory(User, ({ sequence }) => ({ name: `User ${sequence}`, role: "member" })).state("admin", { role: "admin" });
+defineFactory(Post, ({ index }) => ({ title: `Post ${index}` }));
+defineFactory(Admin, () => ({ name: "Demoted", role: "member" }));
+
+describeEachConnection("factories", () => {
+  beforeEach(async () => {
+    await Schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+      table.string("role");
+      table.timestamps();
+    });
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.integer("user_id").nullable();
+      table.string("title");
+      table.timestamps();
+    });
+  });
+
+  it("makes attributes without saving them", async () => {
+    const attributes = factory(User).state("admin").make({ name: "Root" });
+
+    expect(attributes).toEqual({ name: "Root", role: "admin" });
+    expect(await new User().count()).toBe(0);
+  });
+
+  it("creates records with states and sequences", async () => {
+    const users = await factory(User)
+      .count(3)
+      .sequence({ role: "admin" }, (attributes) => ({ name: `${attributes.name}!` }))
+      .create();
+
+    expect(users.map((user: User) => user.role)).toEqual(["admin", "member", "admin"]);
+    expect(users[1].name).toMatch(/^User \d+!$/);
+    expect(await new User().count()).toBe(3);
+  });
+
+  it("creates children and parents through relations", async () => {
+    const author = await factory(User).has(factory(Post).count(2), "posts").create();
+    const post = await factory(Post).for({ id: author.id }, "user").create();
+    const adminPost = await factory(Post).for(factory(User).state("admin"), "user").create();
+
+    expect(author.posts.map((child: Post) => child.title)).toEqual(["Post 0", "Post 1"]);
+    expect(await new Post().count({ user_id: author.id })).toBe(3);
+    expect(post.user_id).toBe(author.id);
+    expect((await new User().find(adminPost.user_id))!.role).toBe("admin");
+  });
+
+  it("returns models of the created records, even those their global scopes hide", async () => {
+    const admin = await factory(Admin).create();
+
+    expect(admin).toBeInstanceOf(Admin);
+    expect([admin.exists, admin.id, admin.role]).toEqual([true, 1, "member"]);
+    expect(await new Admin().find(admin.id)).toBeNull();
+  });
+
+  it("rejects unknown states and the wrong relation types", async () => {
+    expect(() => factory(User).state("banned")).toThrow("State banned not defined on the User factory");
+    await expect(factory(Post).has(factory(User), "user").create()).rejects.toThrow("has() expects a hasOne or hasMany relation");
+  });
+});
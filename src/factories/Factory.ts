@@ -0,0 +1,248 @@
+// src/factories/Factory.ts
+import { BaseModel } from "../BaseModel";
+import { RelationType } from "../types/interfaces";
+
+export type FactoryAttributes = Record<string, any>;
+
+export interface FactoryContext {
+  /**
+   * Increments for every record the factory builds, starting at 1
+   */
+  sequence: number;
+  /**
+   * Position of the record within the current count(), starting at 0
+   */
+  index: number;
+}
+
+export type FactoryDefinitionCallback = (context: FactoryContext) => FactoryAttributes;
+
+export type FactoryState = FactoryAttributes | ((attributes: FactoryAttributes, context: FactoryContext) => FactoryAttributes);
+
+/**
+ * Default attributes and named states registered with defineFactory()
+ */
+export class FactoryDefinition {
+  readonly states = new Map<string, FactoryState>();
+  sequence: number = 0;
+
+  constructor(readonly model: typeof BaseModel, readonly definition: FactoryDefinitionCallback) {}
+
+  /**
+   * Register a named state
+   *
+   * @example
+   * ```typescript
+   * defineFactory(User, ({ sequence }) => ({ name: `User ${sequence}` }))
+   *   .state('admin', { role: 'admin' });
+   * ```
+   */
+  state(name: string, state: FactoryState): this {
+    this.states.set(name, state);
+    return this;
+  }
+}
+
+const definitions = new Map<typeof BaseModel, FactoryDefinition>();
+
+/**
+ * Register the factory of a model
+ *
+ * @example
+ * ```typescript
+ * defineFactory(User, ({ sequence }) => ({
+ *   name: `User ${sequence}`,
+ *   email: `user${sequence}@example.com`,
+ * }));
+ * ```
+ */
+export function defineFactory(model: typeof BaseModel, definition: FactoryDefinitionCallback): FactoryDefinition {
+  const factoryDefinition = new FactoryDefinition(model, definition);
+  definitions.set(model, factoryDefinition);
+  return factoryDefinition;
+}
+
+/**
+ * Start building records of a model from its registered factory
+ *
+ * @example
+ * ```typescript
+ * const users = await factory(User).count(10).create();
+ * const admin = await factory(User).state('admin').create({ name: 'Root' });
+ * const author = await factory(User).has(factory(Post).count(3), 'posts').create();
+ * ```
+ */
+export function factory(model: typeof BaseModel): FactoryBuilder {
+  const definition = definitions.get(model);
+  if (!definition) {
+    throw new Error(`No factory defined for ${model.name}. Call defineFactory(${model.name}, ...) first`);
+  }
+  return new FactoryBuilder(definition);
+}
+
+type FactoryResult<Many extends boolean> = Many extends true ? any[] : any;
+
+export class FactoryBuilder<Many extends boolean = false> {
+  protected amount: number | null = null;
+  protected states: FactoryState[] = [];
+  protected sequences: FactoryState[] = [];
+  protected children: { factory: FactoryBuilder<boolean>; relation: string }[] = [];
+  protected parents: { parent: FactoryBuilder<boolean> | FactoryAttributes; relation: string }[] = [];
+
+  constructor(protected readonly definition: FactoryDefinition) {}
+
+  /**
+   * Build several records instead of one
+   */
+  count(amount: number): FactoryBuilder<true> {
+    this.amount = amount;
+    return this as FactoryBuilder<true>;
+  }
+
+  /**
+   * Apply a named state or inline attributes
+   */
+  state(state: string | FactoryState): this {
+    if (typeof state === "string") {
+      const named = this.definition.states.get(state);
+      if (!named) {
+        throw new Error(`State ${state} not defined on the ${this.definition.model.name} factory`);
+      }
+      this.states.push(named);
+    } else {
+      this.states.push(state);
+    }
+    return this;
+  }
+
+  /**
+   * Cycle through the given states, one per record
+   *
+   * @example
+   * ```typescript
+   * await factory(User).count(4).sequence({ role: 'admin' }, { role: 'member' }).create();
+   * ```
+   */
+  sequence(...states: FactoryState[]): this {
+    this.sequences = states;
+    return this;
+  }
+
+  /**
+   * Create related records through a hasOne/hasMany relation of the model
+   */
+  has(childFactory: FactoryBuilder<boolean>, relation: string): this {
+    this.children.push({ factory: childFactory, relation });
+    return this;
+  }
+
+  /**
+   * Create (or use) the parent of a belongsTo relation of the model
+   */
+  for(parent: FactoryBuilder<boolean> | FactoryAttributes, relation: string): this {
+    this.parents.push({ parent, relation });
+    return this;
+  }
+
+  /**
+   * Build the attributes without saving them
+   */
+  make(overrides: FactoryAttributes = {}): FactoryResult<Many> {
+    const records = this.indexes().map((index) => this.buildAttributes(index, overrides));
+    return (this.amount === null ? records[0] : records) as FactoryResult<Many>;
+  }
+
+  /**
+   * Insert the records through BaseModel.insert() so timestamps and hooks apply
+   */
+  async create(overrides: FactoryAttributes = {}): Promise<FactoryResult<Many>> {
+    const records: any[] = [];
+
+    for (const index of this.indexes()) {
+      const parentKeys = await this.createParents();
+      const attributes = this.buildAttributes(index, { ...parentKeys, ...overrides });
+      const record = await this.insert(attributes);
+      await this.createChildren(record);
+      records.push(record);
+    }
+
+    return (this.amount === null ? records[0] : records) as FactoryResult<Many>;
+  }
+
+  protected indexes(): number[] {
+    return Array.from({ length: this.amount ?? 1 }, (_, index) => index);
+  }
+
+  protected buildAttributes(index: number, overrides: FactoryAttributes): FactoryAttributes {
+    const context: FactoryContext = { sequence: ++this.definition.sequence, index };
+    let attributes = { ...this.definition.definition(context) };
+
+    const states = [...this.states];
+    if (this.sequences.length > 0) {
+      states.push(this.sequences[index % this.sequences.length]);
+    }
+    for (const state of states) {
+      attributes = { ...attributes, ...(typeof state === "function" ? state(attributes, context) : state) };
+    }
+
+    return { ...attributes, ...overrides };
+  }
+
+  /**
+   * Insert a record and fetch it back as a model, whatever its global scopes filter out
+   */
+  protected async insert(attributes: FactoryAttributes): Promise<any> {
+    const model = new this.definition.model();
+    const data = { ...attributes };
+    const insertedId = await model.insert(data);
+    const id = data[model.primaryKey] ?? insertedId;
+
+    const record = await new this.definition.model().withoutGlobalScopes().find(id);
+    if (!record) {
+      throw new Error(`Cannot find the ${this.definition.model.name} just created with ${model.primaryKey} ${id}`);
+    }
+    return record;
+  }
+
+  protected async createParents(): Promise<FactoryAttributes> {
+    const keys: FactoryAttributes = {};
+
+    for (const { parent, relation: relationName } of this.parents) {
+      const relation = this.getRelation(relationName);
+      if (relation.type !== RelationType.BELONGS_TO) {
+        throw new Error(`for() expects a belongsTo relation, ${relationName} is ${relation.type}`);
+      }
+
+      const record = parent instanceof FactoryBuilder ? await parent.create() : parent;
+      const parentModel = relation.model!;
+      const foreignKey = relation.foreignKey || `${parentModel.name.toLowerCase()}_id`;
+      const ownerKey = relation.localKey || new parentModel().primaryKey;
+      keys[foreignKey] = record[ownerKey];
+    }
+
+    return keys;
+  }
+
+  protected async createChildren(record: any): Promise<void> {
+    const model = new this.definition.model();
+
+    for (const { factory: childFactory, relation: relationName } of this.children) {
+      const relation = this.getRelation(relationName);
+      if (relation.type !== RelationType.HAS_ONE && relation.type !== RelationType.HAS_MANY) {
+        throw new Error(`has() expects a hasOne or hasMany relation, ${relationName} is ${relation.type}`);
+      }
+
+      const foreignKey = relation.foreignKey || `${this.definition.model.name.toLowerCase()}_id`;
+      const localKey = relation.localKey || model.primaryKey;
+      record[relationName] = await childFactory.create({ [foreignKey]: record[localKey] });
+    }
+  }
+
+  protected getRelation(name: string) {
+    const relation = this.definition.model.relations[name];
+    if (!relation) {
+      throw new Error(`Relation ${name} not defined on ${this.definition.model.name}`);
+    }
+    return relation;
+  }
+}
@@ -1,15 +1,59 @@
 // src/index.ts
 
 import { BaseModel } from "./BaseModel";
-import { DatabaseConfig, DatabaseConnection, RelationType } from "./types/interfaces";
+import { Transaction } from "./database/Transaction";
+import { DatabaseConnection, OrmConfig, RelationType } from "./types/interfaces";
 
 // Core exports
 export { BaseModel } from "./BaseModel";
-export type { ModelConfig } from "./types/interfaces";
+export type { ModelConfig, GlobalScope, LocalScope, BulkWriteOptions, UpdateManyOptions, PivotIds, SyncResult } from "./types/interfaces";
 
 // Database configuration exports
 export { DatabaseFactory } from "./database/factory";
-export type { DatabaseConfig, MysqlConnectionConfig, SqliteConnectionConfig } from "./types/interfaces";
+export { Transaction } from "./database/Transaction";
+export { ReadWriteConnection } from "./database/ReadWriteConnection";
+export { LoggedConnection, QueryEventEmitter, queryEvents, consoleQueryLogger } from "./database/LoggedConnection";
+export { Dialect, MysqlDialect, SqliteDialect, PostgresDialect } from "./database/dialects";
+export type { SqlFragment } from "./database/dialects";
+export type {
+  DatabaseConfig,
+  ConnectionsConfig,
+  OrmConfig,
+  DialectRegistration,
+  MysqlConnectionConfig,
+  SqliteConnectionConfig,
+  PostgresConnectionConfig,
+  ReplicationConfig,
+  LoggingConfig,
+  QueryLogger,
+  QueryEvent,
+  QueryErrorEvent,
+} from "./types/interfaces";
+
+// Schema builder exports
+export { Schema, SchemaBuilder, Blueprint, ColumnDefinition, ForeignKeyDefinition } from "./schema";
+export { SchemaGrammar, MysqlSchemaGrammar, SqliteSchemaGrammar, PostgresSchemaGrammar } from "./schema";
+export type { ColumnType, ReferentialAction, SchemaCommand } from "./schema";
+
+// Cast exports
+export { resolveCast, JsonCast, BooleanCast, DateCast, DateTimeCast, DecimalCast, BigIntCast, EnumCast } from "./casts";
+export type { CastAttribute, CastDefinition, EnumValues } from "./casts";
+
+// Query builder exports
+export { JoinClause } from "./query";
+export type { JoinCondition, JoinType } from "./query";
+
+// Migration exports
+export { Migration, MigrationRepository, Migrator } from "./migrations";
+export type { MigrationDefinition, MigrationRecord, MigrationStatus, MigratorOptions } from "./migrations";
+export type { MigrationConfig } from "./types/interfaces";
+
+// Factory and seeder exports
+export { defineFactory, factory, FactoryBuilder, FactoryDefinition } from "./factories";
+export type { FactoryAttributes, FactoryContext, FactoryDefinitionCallback, FactoryState } from "./factories";
+export { Seeder, SeederRunner } from "./seeders";
+export type { SeederClass, SeederRunnerOptions } from "./seeders";
+export type { SeederConfig } from "./types/interfaces";
 
 // Relationship exports
 export { RelationType } from "./types/interfaces";
@@ -22,7 +66,7 @@ export type { WhereCondition, WhereInCondition, OrderByCondition, SelectSumField
 /**
  * Initializes the ORM with database configuration
  *
- * @param config Database configuration
+ * @param config Database configuration, or several named connections
  * @returns Promise that resolves when initialization is complete
  *
  * @example
@@ -38,9 +82,18 @@ export type { WhereCondition, WhereInCondition, OrderByCondition, SelectSumField
  *     database: 'test'
  *   }
  * });
+ *
+ * // Several named connections
+ * await initORM({
+ *   default: 'main',
+ *   connections: {
+ *     main: { client: 'mysql', connection: { host: 'localhost', user: 'root', password: '', database: 'app' } },
+ *     analytics: { client: 'sqlite', connection: { filename: './analytics.db' } },
+ *   },
+ * });
  * ```
  */
-export async function initORM(config: DatabaseConfig): Promise<void> {
+export async function initORM(config: OrmConfig): Promise<void> {
   await BaseModel.initialize(config);
 }
 
@@ -72,16 +125,32 @@ export function createModel(tableName: string): typeof BaseModel {
  *
  * @example
  * ```typescript
- * await transaction(async (trx) => {
- *   await UserModel.insert({ name: 'John' }, trx);
- *   await AccountModel.insert({ userId: 1, balance: 100 }, trx);
+ * await transaction(async () => {
+ *   const userId = await new UserModel().insert({ name: 'John' });
+ *   await new AccountModel().insert({ userId, balance: 100 }); // same transaction
  * });
  * ```
  */
-export async function transaction<T>(callback: (transaction: BaseModel) => Promise<T>): Promise<T> {
+export async function transaction<T>(callback: (transaction: Transaction) => Promise<T>): Promise<T> {
   return BaseModel.transaction(callback);
 }
 
+/**
+ * Runs operations outside of the ambient transaction, on the regular connection.
+ * Rejects inside a SQLite transaction, which they would wait for.
+ *
+ * @example
+ * ```typescript
+ * await transaction(async () => {
+ *   await withoutTransaction(() => new AuditLog().insert({ action: 'checkout' }));
+ *   await new Order().insert(order);
+ * });
+ * ```
+ */
+export async function withoutTransaction<T>(callback: () => Promise<T>): Promise<T> {
+  return BaseModel.withoutTransaction(callback);
+}
+
 // Export all type utilities
 export * from "./types/index";
 // Export all decorators
@@ -93,5 +162,6 @@ export default {
   initORM,
   createModel,
   transaction,
+  withoutTransaction,
   RelationType,
 };
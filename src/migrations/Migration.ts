@@ -0,0 +1,43 @@
+// src/migrations/Migration.ts
+import { SchemaBuilder } from "../schema/Schema";
+import { DatabaseConnection } from "../types/interfaces";
+
+/**
+ * Shape of a migration file's export
+ */
+export interface MigrationDefinition {
+  up(schema: SchemaBuilder, connection: DatabaseConnection): Promise<void>;
+  down(schema: SchemaBuilder, connection: DatabaseConnection): Promise<void>;
+  /**
+   * Set to false to opt out of the per-migration transaction
+   */
+  withinTransaction?: boolean;
+}
+
+/**
+ * Base class for migration files
+ *
+ * @example
+ * ```typescript
+ * // migrations/20240101000000_create_users_table.ts
+ * export default class CreateUsersTable extends Migration {
+ *   async up(schema: SchemaBuilder) {
+ *     await schema.create('users', (table) => {
+ *       table.increments();
+ *       table.string('email').unique();
+ *       table.timestamps();
+ *     });
+ *   }
+ *
+ *   async down(schema: SchemaBuilder) {
+ *     await schema.dropIfExists('users');
+ *   }
+ * }
+ * ```
+ */
+export abstract class Migration implements MigrationDefinition {
+  withinTransaction: boolean = true;
+
+  abstract up(schema: SchemaBuilder, connection: DatabaseConnection): Promise<void>;
+  abstract down(schema: SchemaBuilder, connection: DatabaseConnection): Promise<void>;
+}
@@ -0,0 +1,73 @@
+// src/migrations/MigrationRepository.ts
+import { SchemaBuilder } from "../schema/Schema";
+import { DatabaseConnection } from "../types/interfaces";
+
+export interface MigrationRecord {
+  migration: string;
+  batch: number;
+}
+
+/**
+ * Reads and writes the migrations bookkeeping table
+ */
+export class MigrationRepository {
+  constructor(protected readonly connection: DatabaseConnection, readonly tableName: string = "migrations") {}
+
+  /**
+   * Create the bookkeeping table if it does not exist yet
+   */
+  async ensureTable(): Promise<void> {
+    const schema = new SchemaBuilder(this.connection);
+    if (await schema.hasTable(this.tableName)) return;
+
+    await schema.create(this.tableName, (table) => {
+      table.increments();
+      table.string("migration");
+      table.integer("batch");
+    });
+  }
+
+  /**
+   * All ran migrations in the order they were run
+   */
+  async getRan(): Promise<MigrationRecord[]> {
+    return this.select(`SELECT ${this.wrap("migration")}, ${this.wrap("batch")} FROM ${this.wrap(this.tableName)} ORDER BY ${this.wrap("batch")}, ${this.wrap("id")}`);
+  }
+
+  /**
+   * Migrations of the last batch, most recent first
+   */
+  async getLastBatch(): Promise<MigrationRecord[]> {
+    const batch = await this.getLastBatchNumber();
+    const ran = await this.getRan();
+    return ran.filter((record) => record.batch === batch).reverse();
+  }
+
+  async getLastBatchNumber(): Promise<number> {
+    const rows = await this.select<{ batch: number | null }>(`SELECT MAX(${this.wrap("batch")}) AS ${this.wrap("batch")} FROM ${this.wrap(this.tableName)}`);
+    return Number(rows[0]?.batch || 0);
+  }
+
+  async getNextBatchNumber(): Promise<number> {
+    return (await this.getLastBatchNumber()) + 1;
+  }
+
+  async log(migration: string, batch: number, connection: DatabaseConnection = this.connection): Promise<void> {
+    const sql = connection.dialect.compileInsert(this.tableName, ["migration", "batch"]);
+    await connection.execute(connection.dialect.formatQuery(sql), [migration, batch]);
+  }
+
+  async delete(migration: string, connection: DatabaseConnection = this.connection): Promise<void> {
+    const sql = `DELETE FROM ${this.wrap(this.tableName)} WHERE ${this.wrap("migration")} = ?`;
+    await connection.execute(connection.dialect.formatQuery(sql), [migration]);
+  }
+
+  protected async select<T = MigrationRecord>(sql: string, params: any[] = []): Promise<T[]> {
+    const [rows] = await this.connection.query<T>(this.connection.dialect.formatQuery(sql), params);
+    return rows;
+  }
+
+  protected wrap(value: string): string {
+    return this.connection.dialect.wrap(value);
+  }
+}
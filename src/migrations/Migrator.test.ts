@@ -0,0 +1,78 @@
+// src/migrations/Migrator.test.ts
+import { BaseModel } from "../BaseModel";
+import { SchemaBuilder } from "../schema/Schema";
+import { MigrationDefinition } from "./Migration";
+import { Migrator } from "./Migrator";
+
+const createUsers: MigrationDefinition = {
+  up: (schema: SchemaBuilder) =>
+    schema.create("users", (table) => {
+      table.increments();
+      table.string("name");
+    }),
+  down: (schema: SchemaBuilder) => schema.dropIfExists("users"),
+};
+
+const createPosts: MigrationDefinition = {
+  up: (schema: SchemaBuilder) =>
+    schema.create("posts", (table) => {
+      table.increments();
+      table.integer("user_id");
+      table.foreign("user_id").references("id").on("users").onDelete("cascade");
+    }),
+  down: (schema: SchemaBuilder) => schema.dropIfExists("posts"),
+};
+
+const changeUserName = (withinTransaction: boolean): MigrationDefinition => ({
+  withinTransaction,
+  up: (schema: SchemaBuilder) => schema.alter("users", (table) => table.string("name", 20).change()),
+  down: async () => undefined,
+});
+
+describe("Migrator", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({ client: "sqlite", connection: { filename: ":memory:" } });
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  const connection = () => BaseModel.getDefaultConnection();
+  const rows = async (sql: string) => (await connection().query(sql))[0];
+
+  it("runs migrations in batches and rolls them back", async () => {
+    await new Migrator({ migrations: { "001_users": createUsers } }).migrate();
+    const migrator = new Migrator({ migrations: { "001_users": createUsers, "002_posts": createPosts } });
+    expect(await migrator.migrate()).toEqual(["002_posts"]);
+
+    expect(await migrator.status()).toEqual([
+      { name: "001_users", ran: true, batch: 1 },
+      { name: "002_posts", ran: true, batch: 2 },
+    ]);
+    expect(await migrator.rollback()).toEqual(["002_posts"]);
+    expect((await migrator.status())[1].ran).toBe(false);
+  });
+
+  describe("with foreign keys enforced", () => {
+    beforeEach(async () => {
+      await connection().execute("PRAGMA foreign_keys = ON");
+      await new Migrator({ migrations: { "001_users": createUsers, "002_posts": createPosts } }).migrate();
+      await connection().execute("INSERT INTO users (name) VALUES ('ann')");
+      await connection().execute("INSERT INTO posts (user_id) VALUES (1)");
+    });
+
+    it("fails a migration that rebuilds a table inside its transaction, leaving the data alone", async () => {
+      const migrator = new Migrator({ migrations: { "001_users": createUsers, "002_posts": createPosts, "003_name": changeUserName(true) } });
+
+      await expect(migrator.migrate()).rejects.toThrow(/Migration 003_name \(up\) failed and was rolled back: .*withinTransaction = false/);
+      expect(await rows("SELECT * FROM posts")).toEqual([{ id: 1, user_id: 1 }]);
+      expect((await migrator.status())[2].ran).toBe(false);
+    });
+
+    it("rebuilds tables in migrations that run outside a transaction", async () => {
+      const migrator = new Migrator({ migrations: { "001_users": createUsers, "002_posts": createPosts, "003_name": changeUserName(false) } });
+
+      expect(await migrator.migrate()).toEqual(["003_name"]);
+      expect(await rows("SELECT * FROM posts")).toEqual([{ id: 1, user_id: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+// src/migrations/Migrator.ts
+import fs from "fs";
+import path from "path";
+import { BaseModel } from "../BaseModel";
+import { Transaction } from "../database/Transaction";
+import { SchemaBuilder } from "../schema/Schema";
+import { DatabaseConnection } from "../types/interfaces";
+import { MigrationDefinition } from "./Migration";
+import { MigrationRepository } from "./MigrationRepository";
+
+export interface MigratorOptions {
+  /**
+   * Connection to migrate, given directly or by name (default: the default connection)
+   */
+  connection?: DatabaseConnection | string;
+  /**
+   * Directory containing the migration files (default: ./migrations)
+   */
+  directory?: string;
+  /**
+   * Migrations given directly instead of loaded from the directory, keyed by name
+   */
+  migrations?: Record<string, MigrationDefinition | (new () => MigrationDefinition)>;
+  /**
+   * Bookkeeping table (default: migrations)
+   */
+  tableName?: string;
+}
+
+export interface MigrationStatus {
+  name: string;
+  ran: boolean;
+  batch: number | null;
+}
+
+/**
+ * Runs migrations up and down, keeping track of them in batches
+ *
+ * @example
+ * ```typescript
+ * await initORM(config);
+ * const migrator = new Migrator({ directory: './migrations' });
+ *
+ * await migrator.migrate();   // run pending migrations as a new batch
+ * await migrator.rollback();  // revert the last batch
+ * await migrator.status();    // [{ name, ran, batch }]
+ * ```
+ */
+export class Migrator {
+  protected readonly connection: DatabaseConnection;
+  protected readonly repository: MigrationRepository;
+
+  constructor(protected readonly options: MigratorOptions = {}) {
+    this.connection = typeof options.connection === "object" ? options.connection : BaseModel.resolveConnection(options.connection);
+    this.repository = new MigrationRepository(this.connection, options.tableName);
+  }
+
+  /**
+   * Run all pending migrations as a new batch
+   */
+  async migrate(): Promise<string[]> {
+    await this.repository.ensureTable();
+
+    const ran = new Set((await this.repository.getRan()).map((record) => record.migration));
+    const pending = Object.entries(this.loadMigrations()).filter(([name]) => !ran.has(name));
+    if (pending.length === 0) return [];
+
+    const batch = await this.repository.getNextBatchNumber();
+    for (const [name, migration] of pending) {
+      await this.runMigration(name, migration, "up", (connection) => this.repository.log(name, batch, connection));
+    }
+
+    return pending.map(([name]) => name);
+  }
+
+  /**
+   * Revert the last batch, or the last `step` migrations
+   */
+  async rollback(options: { step?: number } = {}): Promise<string[]> {
+    await this.repository.ensureTable();
+
+    const records = options.step ? (await this.repository.getRan()).reverse().slice(0, options.step) : await this.repository.getLastBatch();
+    return this.rollbackMigrations(records.map((record) => record.migration));
+  }
+
+  /**
+   * Revert every migration that has been run
+   */
+  async reset(): Promise<string[]> {
+    await this.repository.ensureTable();
+
+    const records = (await this.repository.getRan()).reverse();
+    return this.rollbackMigrations(records.map((record) => record.migration));
+  }
+
+  /**
+   * Reset and re-run all migrations
+   */
+  async refresh(): Promise<{ rolledBack: string[]; migrated: string[] }> {
+    const rolledBack = await this.reset();
+    const migrated = await this.migrate();
+    return { rolledBack, migrated };
+  }
+
+  /**
+   * Every known migration with whether (and in which batch) it ran
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.repository.ensureTable();
+
+    const ran = new Map((await this.repository.getRan()).map((record) => [record.migration, record.batch]));
+    const names = new Set([...Object.keys(this.loadMigrations()), ...ran.keys()]);
+
+    return [...names].sort().map((name) => ({
+      name,
+      ran: ran.has(name),
+      batch: ran.get(name) ?? null,
+    }));
+  }
+
+  protected async rollbackMigrations(names: string[]): Promise<string[]> {
+    const migrations = this.loadMigrations();
+    const rolledBack: string[] = [];
+
+    for (const name of names) {
+      const migration = migrations[name];
+      if (!migration) {
+        throw new Error(`Migration not found: ${name}`);
+      }
+      await this.runMigration(name, migration, "down", (connection) => this.repository.delete(name, connection));
+      rolledBack.push(name);
+    }
+
+    return rolledBack;
+  }
+
+  /**
+   * Run one direction of a migration together with its bookkeeping,
+   * inside a transaction when the dialect supports transactional DDL.
+   *
+   * Some statements cannot run safely in a transaction (e.g. an SQLite table
+   * rebuild while foreign keys are enforced); the schema builder refuses them and
+   * the migration fails, rolled back, naming itself so it can opt out with
+   * `withinTransaction = false`.
+   */
+  protected async runMigration(
+    name: string,
+    migration: MigrationDefinition,
+    method: "up" | "down",
+    record: (connection: DatabaseConnection) => Promise<void>
+  ): Promise<void> {
+    const connection = this.connection;
+    const useTransaction = connection.dialect.supportsTransactionalDdl && migration.withinTransaction !== false;
+
+    if (!useTransaction) {
+      await migration[method](new SchemaBuilder(connection), connection);
+      await record(connection);
+      return;
+    }
+
+    try {
+      await Transaction.run(connection, async (transaction) => {
+        await migration[method](new SchemaBuilder(transaction), transaction);
+        await record(transaction);
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        error.message = `Migration ${name} (${method}) failed and was rolled back: ${error.message}`;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Migrations keyed by name, sorted by name
+   */
+  protected loadMigrations(): Record<string, MigrationDefinition> {
+    const migrations: Record<string, MigrationDefinition> = {};
+    const sources = this.options.migrations || this.loadDirectory();
+
+    for (const name of Object.keys(sources).sort()) {
+      const source = sources[name];
+      migrations[name] = typeof source === "function" ? new source() : source;
+    }
+
+    return migrations;
+  }
+
+  protected loadDirectory(): Record<string, MigrationDefinition | (new () => MigrationDefinition)> {
+    const directory = path.resolve(this.options.directory || "migrations");
+    if (!fs.existsSync(directory)) return {};
+
+    const sources: Record<string, MigrationDefinition | (new () => MigrationDefinition)> = {};
+    for (const file of fs.readdirSync(directory)) {
+      if (!/\.(js|cjs|ts)$/.test(file) || file.endsWith(".d.ts")) continue;
+
+      const name = file.replace(/\.(js|cjs|ts)$/, "");
+      if (sources[name]) continue;
+
+      const exported = require(path.join(directory, file));
+      sources[name] = exported.default || exported;
+    }
+
+    return sources;
+  }
+}
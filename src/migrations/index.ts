@@ -0,0 +1,3 @@
+export * from "./Migration";
+export * from "./MigrationRepository";
+export * from "./Migrator";
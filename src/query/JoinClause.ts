@@ -0,0 +1,95 @@
+// src/query/JoinClause.ts
+
+export type JoinType = "INNER" | "LEFT" | "RIGHT" | "CROSS";
+
+export interface JoinCondition {
+  first: string;
+  operator: string;
+  /**
+   * Column compared against `first`, for on() conditions
+   */
+  second?: string;
+  /**
+   * Bound value compared against `first`, for where() conditions
+   */
+  value?: any;
+  conjunction: "AND" | "OR";
+}
+
+/**
+ * The ON conditions of a join
+ *
+ * @example
+ * ```typescript
+ * new User()
+ *   .leftJoin('posts as p', (join) => join.on('p.user_id', 'users.id').where('p.status', 'published'))
+ *   .get();
+ * ```
+ */
+export class JoinClause {
+  readonly conditions: JoinCondition[] = [];
+
+  constructor(readonly type: JoinType, readonly table: string) {}
+
+  /**
+   * Compare two columns: on(first, second) or on(first, operator, second)
+   */
+  on(first: string, operatorOrSecond: string, second?: string): this {
+    return this.addCondition(first, operatorOrSecond, second, "AND");
+  }
+
+  orOn(first: string, operatorOrSecond: string, second?: string): this {
+    return this.addCondition(first, operatorOrSecond, second, "OR");
+  }
+
+  /**
+   * Compare a column with a bound value: where(column, value) or where(column, operator, value)
+   */
+  where(first: string, ...args: any[]): this {
+    return this.addValueCondition(first, args, "AND");
+  }
+
+  orWhere(first: string, ...args: any[]): this {
+    return this.addValueCondition(first, args, "OR");
+  }
+
+  /**
+   * Compile the join, appending its bindings to params
+   */
+  compile(wrap: (value: string) => string, params: any[]): string {
+    if (this.type === "CROSS") {
+      return `CROSS JOIN ${wrap(this.table)}`;
+    }
+    if (this.conditions.length === 0) {
+      throw new Error(`Join on ${this.table} has no conditions`);
+    }
+
+    const conditions = this.conditions.map((condition, index) => {
+      let sql: string;
+      if (condition.second !== undefined) {
+        sql = `${wrap(condition.first)} ${condition.operator} ${wrap(condition.second)}`;
+      } else {
+        params.push(condition.value);
+        sql = `${wrap(condition.first)} ${condition.operator} ?`;
+      }
+      return index === 0 ? sql : `${condition.conjunction} ${sql}`;
+    });
+
+    return `${this.type} JOIN ${wrap(this.table)} ON ${conditions.join(" ")}`;
+  }
+
+  protected addCondition(first: string, operatorOrSecond: string, second: string | undefined, conjunction: "AND" | "OR"): this {
+    const [operator, column] = second === undefined ? ["=", operatorOrSecond] : [operatorOrSecond, second];
+    this.conditions.push({ first, operator, second: column, conjunction });
+    return this;
+  }
+
+  protected addValueCondition(first: string, args: any[], conjunction: "AND" | "OR"): this {
+    if (args.length < 1 || args.length > 2) {
+      throw new Error("Invalid join where syntax. Use where(column, value) or where(column, operator, value)");
+    }
+    const [operator, value] = args.length === 1 ? ["=", args[0]] : args;
+    this.conditions.push({ first, operator, value, conjunction });
+    return this;
+  }
+}
@@ -0,0 +1,338 @@
+// src/schema/Blueprint.ts
+
+export type ColumnType =
+  | "increments"
+  | "bigIncrements"
+  | "string"
+  | "text"
+  | "integer"
+  | "bigInteger"
+  | "decimal"
+  | "float"
+  | "boolean"
+  | "json"
+  | "date"
+  | "dateTime"
+  | "timestamp"
+  | "uuid";
+
+export type ReferentialAction = "cascade" | "restrict" | "set null" | "no action";
+
+/**
+ * A column being added or changed, configured through fluent modifiers
+ */
+export class ColumnDefinition {
+  length?: number;
+  precision?: number;
+  scale?: number;
+  isNullable: boolean = false;
+  hasDefault: boolean = false;
+  defaultValue: any;
+  isUnsigned: boolean = false;
+  isPrimary: boolean = false;
+  isUnique: boolean = false;
+  isIndexed: boolean = false;
+  isChange: boolean = false;
+  isUseCurrent: boolean = false;
+
+  constructor(public name: string, public type: ColumnType) {}
+
+  /**
+   * Allow NULL values
+   */
+  nullable(value: boolean = true): this {
+    this.isNullable = value;
+    return this;
+  }
+
+  /**
+   * Default value for the column
+   */
+  default(value: any): this {
+    this.hasDefault = true;
+    this.defaultValue = value;
+    return this;
+  }
+
+  /**
+   * Default to CURRENT_TIMESTAMP
+   */
+  useCurrent(): this {
+    this.isUseCurrent = true;
+    return this;
+  }
+
+  unsigned(): this {
+    this.isUnsigned = true;
+    return this;
+  }
+
+  primary(): this {
+    this.isPrimary = true;
+    return this;
+  }
+
+  unique(): this {
+    this.isUnique = true;
+    return this;
+  }
+
+  index(): this {
+    this.isIndexed = true;
+    return this;
+  }
+
+  /**
+   * Modify an existing column instead of adding a new one (alter only)
+   */
+  change(): this {
+    this.isChange = true;
+    return this;
+  }
+}
+
+/**
+ * A foreign key constraint, configured through fluent modifiers
+ */
+export class ForeignKeyDefinition {
+  referencedColumns: string[] = ["id"];
+  referencedTable: string = "";
+  onDeleteAction?: ReferentialAction;
+  onUpdateAction?: ReferentialAction;
+
+  constructor(public name: string, public columns: string[]) {}
+
+  references(columns: string | string[]): this {
+    this.referencedColumns = Array.isArray(columns) ? columns : [columns];
+    return this;
+  }
+
+  on(table: string): this {
+    this.referencedTable = table;
+    return this;
+  }
+
+  onDelete(action: ReferentialAction): this {
+    this.onDeleteAction = action;
+    return this;
+  }
+
+  onUpdate(action: ReferentialAction): this {
+    this.onUpdateAction = action;
+    return this;
+  }
+}
+
+export type SchemaCommand =
+  | { type: "primary"; name: string; columns: string[] }
+  | { type: "unique"; name: string; columns: string[] }
+  | { type: "index"; name: string; columns: string[] }
+  | { type: "foreign"; foreign: ForeignKeyDefinition }
+  | { type: "dropColumn"; columns: string[] }
+  | { type: "renameColumn"; from: string; to: string }
+  | { type: "dropIndex"; name: string }
+  | { type: "dropUnique"; name: string }
+  | { type: "dropForeign"; name: string; columns?: string[] };
+
+/**
+ * Collects the columns and commands of a `Schema.create()` or `Schema.alter()` callback
+ *
+ * @example
+ * ```typescript
+ * await Schema.create('posts', (table) => {
+ *   table.increments();
+ *   table.string('title');
+ *   table.integer('user_id').unsigned();
+ *   table.foreign('user_id').references('id').on('users').onDelete('cascade');
+ *   table.timestamps();
+ * });
+ * ```
+ */
+export class Blueprint {
+  readonly columns: ColumnDefinition[] = [];
+  readonly commands: SchemaCommand[] = [];
+
+  constructor(readonly table: string, readonly creating: boolean) {}
+
+  /**
+   * Auto-incrementing integer primary key
+   */
+  increments(name: string = "id"): ColumnDefinition {
+    return this.addColumn(name, "increments").unsigned();
+  }
+
+  /**
+   * Auto-incrementing big integer primary key
+   */
+  bigIncrements(name: string = "id"): ColumnDefinition {
+    return this.addColumn(name, "bigIncrements").unsigned();
+  }
+
+  string(name: string, length: number = 255): ColumnDefinition {
+    const column = this.addColumn(name, "string");
+    column.length = length;
+    return column;
+  }
+
+  text(name: string): ColumnDefinition {
+    return this.addColumn(name, "text");
+  }
+
+  integer(name: string): ColumnDefinition {
+    return this.addColumn(name, "integer");
+  }
+
+  bigInteger(name: string): ColumnDefinition {
+    return this.addColumn(name, "bigInteger");
+  }
+
+  decimal(name: string, precision: number = 8, scale: number = 2): ColumnDefinition {
+    const column = this.addColumn(name, "decimal");
+    column.precision = precision;
+    column.scale = scale;
+    return column;
+  }
+
+  float(name: string): ColumnDefinition {
+    return this.addColumn(name, "float");
+  }
+
+  boolean(name: string): ColumnDefinition {
+    return this.addColumn(name, "boolean");
+  }
+
+  json(name: string): ColumnDefinition {
+    return this.addColumn(name, "json");
+  }
+
+  date(name: string): ColumnDefinition {
+    return this.addColumn(name, "date");
+  }
+
+  dateTime(name: string): ColumnDefinition {
+    return this.addColumn(name, "dateTime");
+  }
+
+  timestamp(name: string): ColumnDefinition {
+    return this.addColumn(name, "timestamp");
+  }
+
+  uuid(name: string): ColumnDefinition {
+    return this.addColumn(name, "uuid");
+  }
+
+  /**
+   * Nullable created_at and updated_at columns
+   */
+  timestamps(createdAt: string = "created_at", updatedAt: string = "updated_at"): void {
+    this.timestamp(createdAt).nullable();
+    this.timestamp(updatedAt).nullable();
+  }
+
+  /**
+   * Nullable deleted_at column used by soft deletes
+   */
+  softDeletes(column: string = "deleted_at"): ColumnDefinition {
+    return this.timestamp(column).nullable();
+  }
+
+  primary(columns: string | string[], name?: string): void {
+    const list = this.columnList(columns);
+    this.commands.push({ type: "primary", name: name || this.indexName("primary", list), columns: list });
+  }
+
+  unique(columns: string | string[], name?: string): void {
+    const list = this.columnList(columns);
+    this.commands.push({ type: "unique", name: name || this.indexName("unique", list), columns: list });
+  }
+
+  index(columns: string | string[], name?: string): void {
+    const list = this.columnList(columns);
+    this.commands.push({ type: "index", name: name || this.indexName("index", list), columns: list });
+  }
+
+  foreign(columns: string | string[], name?: string): ForeignKeyDefinition {
+    const list = this.columnList(columns);
+    const foreign = new ForeignKeyDefinition(name || this.indexName("foreign", list), list);
+    this.commands.push({ type: "foreign", foreign });
+    return foreign;
+  }
+
+  dropColumn(columns: string | string[]): void {
+    this.commands.push({ type: "dropColumn", columns: this.columnList(columns) });
+  }
+
+  renameColumn(from: string, to: string): void {
+    this.commands.push({ type: "renameColumn", from, to });
+  }
+
+  /**
+   * Drop an index by name, or by the columns it was created for
+   */
+  dropIndex(index: string | string[]): void {
+    this.commands.push({ type: "dropIndex", name: Array.isArray(index) ? this.indexName("index", index) : index });
+  }
+
+  dropUnique(index: string | string[]): void {
+    this.commands.push({ type: "dropUnique", name: Array.isArray(index) ? this.indexName("unique", index) : index });
+  }
+
+  dropForeign(index: string | string[]): void {
+    if (Array.isArray(index)) {
+      this.commands.push({ type: "dropForeign", name: this.indexName("foreign", index), columns: index });
+    } else {
+      this.commands.push({ type: "dropForeign", name: index });
+    }
+  }
+
+  /**
+   * Columns being added (as opposed to changed)
+   */
+  getAddedColumns(): ColumnDefinition[] {
+    return this.columns.filter((column) => !column.isChange);
+  }
+
+  getChangedColumns(): ColumnDefinition[] {
+    return this.columns.filter((column) => column.isChange);
+  }
+
+  /**
+   * Commands including the indexes implied by column modifiers such as `.unique()`
+   */
+  getCommands(): SchemaCommand[] {
+    const implied: SchemaCommand[] = [];
+    for (const column of this.columns) {
+      if (column.isPrimary && !this.isIncrementing(column)) {
+        implied.push({ type: "primary", name: this.indexName("primary", [column.name]), columns: [column.name] });
+      }
+      if (column.isUnique) {
+        implied.push({ type: "unique", name: this.indexName("unique", [column.name]), columns: [column.name] });
+      }
+      if (column.isIndexed) {
+        implied.push({ type: "index", name: this.indexName("index", [column.name]), columns: [column.name] });
+      }
+    }
+    return [...implied, ...this.commands];
+  }
+
+  /**
+   * Default name for an index or constraint, e.g. `posts_user_id_foreign`
+   */
+  indexName(type: string, columns: string[]): string {
+    return `${this.table}_${columns.join("_")}_${type}`.toLowerCase().replace(/[^a-z0-9_]/g, "_");
+  }
+
+  isIncrementing(column: ColumnDefinition): boolean {
+    return column.type === "increments" || column.type === "bigIncrements";
+  }
+
+  protected addColumn(name: string, type: ColumnType): ColumnDefinition {
+    const column = new ColumnDefinition(name, type);
+    this.columns.push(column);
+    return column;
+  }
+
+  private columnList(columns: string | string[]): string[] {
+    return Array.isArray(columns) ? columns : [columns];
+  }
+}
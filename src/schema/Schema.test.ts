@@ -0,0 +1,88 @@
+// src/schema/Schema.test.ts
+import { BaseModel } from "../BaseModel";
+import { Transaction } from "../database/Transaction";
+import { Schema } from "./Schema";
+
+describe("Schema on SQLite", () => {
+  beforeEach(async () => {
+    await BaseModel.initialize({ client: "sqlite", connection: { filename: ":memory:" } });
+  });
+
+  afterEach(() => BaseModel.closeConnections());
+
+  const connection = () => BaseModel.getDefaultConnection();
+  const rows = async (sql: string) => (await connection().query(sql))[0];
+
+  async function createParentAndChild(): Promise<void> {
+    await connection().execute("PRAGMA foreign_keys = ON");
+    await Schema.create("a", (table) => {
+      table.increments();
+      table.string("name");
+    });
+    await Schema.create("b", (table) => {
+      table.increments();
+      table.integer("a_id");
+      table.foreign("a_id").references("id").on("a").onDelete("cascade");
+    });
+    await connection().execute("INSERT INTO a (name) VALUES ('one')");
+    await connection().execute("INSERT INTO b (a_id) VALUES (1)");
+  }
+
+  it("creates and alters tables", async () => {
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+      table.timestamps();
+    });
+    await Schema.alter("posts", (table) => table.text("body").nullable());
+
+    expect(await Schema.hasTable("posts")).toBe(true);
+    expect(await Schema.hasColumn("posts", "body")).toBe(true);
+  });
+
+  it("applies renames to columns added in a rebuild", async () => {
+    await Schema.create("posts", (table) => {
+      table.increments();
+      table.string("title");
+    });
+
+    await Schema.alter("posts", (table) => {
+      table.string("extra").nullable();
+      table.renameColumn("extra", "extra2");
+      table.string("title", 100).change();
+    });
+
+    expect(await Schema.hasColumn("posts", "extra2")).toBe(true);
+    expect(await Schema.hasColumn("posts", "extra")).toBe(false);
+  });
+
+  it("rebuilds a referenced table without cascading deletes to its children", async () => {
+    await createParentAndChild();
+
+    await Schema.alter("a", (table) => table.string("name", 20).change());
+
+    expect(await rows("SELECT * FROM b")).toEqual([{ id: 1, a_id: 1 }]);
+    expect(await rows("PRAGMA foreign_keys")).toEqual([{ foreign_keys: 1 }]);
+  });
+
+  it("refuses to rebuild inside a transaction while foreign keys are enforced", async () => {
+    await createParentAndChild();
+
+    await expect(
+      Transaction.run(connection(), (transaction) => Schema.connection(transaction).alter("a", (table) => table.string("name", 20).change()))
+    ).rejects.toThrow("inside a transaction while foreign keys are enforced");
+    expect(await rows("SELECT * FROM b")).toEqual([{ id: 1, a_id: 1 }]);
+  });
+
+  it("rolls a rebuild back when it breaks foreign keys", async () => {
+    await createParentAndChild();
+    await connection().execute("CREATE TABLE c (id INTEGER PRIMARY KEY, a_id INTEGER)");
+    await connection().execute("INSERT INTO c (a_id) VALUES (99)");
+
+    await expect(
+      Schema.alter("c", (table) => table.foreign("a_id").references("id").on("a"))
+    ).rejects.toThrow("breaks foreign keys (c -> a)");
+    expect(await rows("SELECT sql FROM sqlite_master WHERE name = 'c'")).toEqual([{ sql: "CREATE TABLE c (id INTEGER PRIMARY KEY, a_id INTEGER)" }]);
+    expect(await rows("PRAGMA foreign_keys")).toEqual([{ foreign_keys: 1 }]);
+  });
+});
@@ -0,0 +1,126 @@
+// src/schema/Schema.ts
+import { BaseModel } from "../BaseModel";
+import { Transaction } from "../database/Transaction";
+import { DatabaseConnection } from "../types/interfaces";
+import { Blueprint } from "./Blueprint";
+import { SchemaGrammar } from "./grammars/SchemaGrammar";
+
+/**
+ * Creates, alters and drops tables on a connection
+ */
+export class SchemaBuilder {
+  constructor(protected readonly connection: DatabaseConnection) {}
+
+  protected get grammar(): SchemaGrammar {
+    return this.connection.dialect.createSchemaGrammar();
+  }
+
+  async create(table: string, callback: (table: Blueprint) => void): Promise<void> {
+    const blueprint = new Blueprint(table, true);
+    callback(blueprint);
+    await this.run(this.grammar.compileCreate(blueprint));
+  }
+
+  async alter(table: string, callback: (table: Blueprint) => void): Promise<void> {
+    const blueprint = new Blueprint(table, false);
+    callback(blueprint);
+    await this.grammar.runAlter(blueprint, this.connection);
+  }
+
+  async drop(table: string): Promise<void> {
+    await this.run([this.grammar.compileDrop(table)]);
+  }
+
+  async dropIfExists(table: string): Promise<void> {
+    await this.run([this.grammar.compileDropIfExists(table)]);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    await this.run([this.grammar.compileRename(from, to)]);
+  }
+
+  async hasTable(table: string): Promise<boolean> {
+    const { sql, params } = this.grammar.compileTableExists(table);
+    const [rows] = await this.connection.query(this.connection.dialect.formatQuery(sql), params);
+    return rows.length > 0;
+  }
+
+  async hasColumn(table: string, column: string): Promise<boolean> {
+    const { sql, params } = this.grammar.compileColumnListing(table);
+    const [rows] = await this.connection.query<{ name: string }>(this.connection.dialect.formatQuery(sql), params);
+    return rows.some((row) => row.name.toLowerCase() === column.toLowerCase());
+  }
+
+  /**
+   * Compile the statements of a create/alter without running them
+   */
+  async toSql(table: string, callback: (table: Blueprint) => void, creating: boolean = true): Promise<string[]> {
+    const blueprint = new Blueprint(table, creating);
+    callback(blueprint);
+    return creating ? this.grammar.compileCreate(blueprint) : this.grammar.compileAlter(blueprint, this.connection);
+  }
+
+  protected async run(statements: string[]): Promise<void> {
+    for (const statement of statements) {
+      await this.connection.execute(statement);
+    }
+  }
+}
+
+/**
+ * Schema builder bound to the default connection
+ *
+ * @example
+ * ```typescript
+ * await Schema.create('users', (table) => {
+ *   table.increments();
+ *   table.string('email').unique();
+ *   table.boolean('active').default(true);
+ *   table.timestamps();
+ *   table.softDeletes();
+ * });
+ *
+ * await Schema.alter('users', (table) => {
+ *   table.string('name', 100).nullable().change();
+ *   table.dropColumn('active');
+ * });
+ * ```
+ */
+export class Schema {
+  /**
+   * Schema builder for a specific connection, given directly or by name. Like models,
+   * it joins the connection's ambient transaction when there is one.
+   */
+  static connection(connection?: DatabaseConnection | string): SchemaBuilder {
+    const resolved = typeof connection === "object" ? connection : BaseModel.resolveConnection(connection);
+    return new SchemaBuilder(Transaction.current(resolved) || resolved);
+  }
+
+  static create(table: string, callback: (table: Blueprint) => void): Promise<void> {
+    return this.connection().create(table, callback);
+  }
+
+  static alter(table: string, callback: (table: Blueprint) => void): Promise<void> {
+    return this.connection().alter(table, callback);
+  }
+
+  static drop(table: string): Promise<void> {
+    return this.connection().drop(table);
+  }
+
+  static dropIfExists(table: string): Promise<void> {
+    return this.connection().dropIfExists(table);
+  }
+
+  static rename(from: string, to: string): Promise<void> {
+    return this.connection().rename(from, to);
+  }
+
+  static hasTable(table: string): Promise<boolean> {
+    return this.connection().hasTable(table);
+  }
+
+  static hasColumn(table: string, column: string): Promise<boolean> {
+    return this.connection().hasColumn(table, column);
+  }
+}
@@ -0,0 +1,65 @@
+// src/schema/grammars/MysqlSchemaGrammar.ts
+import { SqlFragment } from "../../database/dialects/Dialect";
+import { Blueprint, ColumnDefinition } from "../Blueprint";
+import { SchemaGrammar } from "./SchemaGrammar";
+
+export class MysqlSchemaGrammar extends SchemaGrammar {
+  protected compileType(column: ColumnDefinition): string {
+    const unsigned = column.isUnsigned ? " UNSIGNED" : "";
+
+    switch (column.type) {
+      case "increments":
+      case "integer":
+        return `INT${unsigned}`;
+      case "bigIncrements":
+      case "bigInteger":
+        return `BIGINT${unsigned}`;
+      case "string":
+        return `VARCHAR(${column.length})`;
+      case "text":
+        return "TEXT";
+      case "decimal":
+        return `DECIMAL(${column.precision}, ${column.scale})${unsigned}`;
+      case "float":
+        return `DOUBLE${unsigned}`;
+      case "boolean":
+        return "TINYINT(1)";
+      case "json":
+        return "JSON";
+      case "date":
+        return "DATE";
+      case "dateTime":
+        return "DATETIME";
+      case "timestamp":
+        return "TIMESTAMP";
+      case "uuid":
+        return "CHAR(36)";
+    }
+  }
+
+  protected compileChange(blueprint: Blueprint, column: ColumnDefinition): string[] {
+    return [`ALTER TABLE ${this.wrap(blueprint.table)} MODIFY COLUMN ${this.compileColumn(column)}`];
+  }
+
+  protected compileDropForeign(table: string, name: string): string {
+    return `ALTER TABLE ${this.wrap(table)} DROP FOREIGN KEY ${this.wrap(name)}`;
+  }
+
+  protected compileDropIndex(table: string, name: string): string {
+    return `DROP INDEX ${this.wrap(name)} ON ${this.wrap(table)}`;
+  }
+
+  compileTableExists(table: string): SqlFragment {
+    return {
+      sql: "SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?",
+      params: [table],
+    };
+  }
+
+  compileColumnListing(table: string): SqlFragment {
+    return {
+      sql: "SELECT column_name AS name FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = ?",
+      params: [table],
+    };
+  }
+}
@@ -0,0 +1,67 @@
+// src/schema/grammars/PostgresSchemaGrammar.ts
+import { SqlFragment } from "../../database/dialects/Dialect";
+import { Blueprint, ColumnDefinition } from "../Blueprint";
+import { SchemaGrammar } from "./SchemaGrammar";
+
+export class PostgresSchemaGrammar extends SchemaGrammar {
+  protected compileType(column: ColumnDefinition): string {
+    switch (column.type) {
+      case "increments":
+      case "integer":
+        return "INTEGER";
+      case "bigIncrements":
+      case "bigInteger":
+        return "BIGINT";
+      case "string":
+        return `VARCHAR(${column.length})`;
+      case "text":
+        return "TEXT";
+      case "decimal":
+        return `DECIMAL(${column.precision}, ${column.scale})`;
+      case "float":
+        return "DOUBLE PRECISION";
+      case "boolean":
+        return "BOOLEAN";
+      case "json":
+        return "JSONB";
+      case "date":
+        return "DATE";
+      case "dateTime":
+      case "timestamp":
+        return "TIMESTAMP(0) WITHOUT TIME ZONE";
+      case "uuid":
+        return "UUID";
+    }
+  }
+
+  protected compileDefault(value: any): string {
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+    return super.compileDefault(value);
+  }
+
+  protected compileChange(blueprint: Blueprint, column: ColumnDefinition): string[] {
+    const name = this.wrap(column.name);
+    const type = this.compileType(column);
+    const defaultValue = this.compileDefaultClause(column);
+    const changes = [
+      `ALTER COLUMN ${name} TYPE ${type}`,
+      `ALTER COLUMN ${name} ${column.isNullable ? "DROP NOT NULL" : "SET NOT NULL"}`,
+      `ALTER COLUMN ${name} ${defaultValue ? `SET ${defaultValue}` : "DROP DEFAULT"}`,
+    ];
+    return [`ALTER TABLE ${this.wrap(blueprint.table)} ${changes.join(", ")}`];
+  }
+
+  compileTableExists(table: string): SqlFragment {
+    return {
+      sql: "SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?",
+      params: [table],
+    };
+  }
+
+  compileColumnListing(table: string): SqlFragment {
+    return {
+      sql: "SELECT column_name AS name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = ?",
+      params: [table],
+    };
+  }
+}
@@ -0,0 +1,212 @@
+// src/schema/grammars/SchemaGrammar.ts
+import { Dialect, SqlFragment } from "../../database/dialects/Dialect";
+import { DatabaseConnection } from "../../types/interfaces";
+import { Blueprint, ColumnDefinition, ForeignKeyDefinition, SchemaCommand } from "../Blueprint";
+
+/**
+ * Compiles blueprints into DDL statements for a dialect
+ */
+export abstract class SchemaGrammar {
+  constructor(protected readonly dialect: Dialect) {}
+
+  /**
+   * SQL type of a column, e.g. `VARCHAR(255)`
+   */
+  protected abstract compileType(column: ColumnDefinition): string;
+
+  /**
+   * Statements for `Schema.create()`
+   */
+  compileCreate(blueprint: Blueprint): string[] {
+    const commands = blueprint.getCommands();
+    const definitions = blueprint.getAddedColumns().map((column) => this.compileColumn(column));
+
+    for (const command of commands) {
+      if (command.type === "primary") {
+        definitions.push(`PRIMARY KEY (${this.columnize(command.columns)})`);
+      } else if (command.type === "foreign") {
+        definitions.push(this.compileForeignDefinition(command.foreign));
+      }
+    }
+
+    return [
+      `CREATE TABLE ${this.wrap(blueprint.table)} (${definitions.join(", ")})`,
+      ...this.compileIndexes(blueprint.table, commands),
+    ];
+  }
+
+  /**
+   * Statements for `Schema.alter()`. The connection is available to grammars
+   * that need to inspect the current table first.
+   */
+  async compileAlter(blueprint: Blueprint, connection: DatabaseConnection): Promise<string[]> {
+    const table = this.wrap(blueprint.table);
+    const statements: string[] = [];
+
+    for (const column of blueprint.getAddedColumns()) {
+      statements.push(`ALTER TABLE ${table} ${this.compileAddColumn(column)}`);
+    }
+    for (const column of blueprint.getChangedColumns()) {
+      statements.push(...this.compileChange(blueprint, column));
+    }
+
+    for (const command of blueprint.getCommands()) {
+      switch (command.type) {
+        case "primary":
+          statements.push(`ALTER TABLE ${table} ADD CONSTRAINT ${this.wrap(command.name)} PRIMARY KEY (${this.columnize(command.columns)})`);
+          break;
+        case "foreign":
+          statements.push(`ALTER TABLE ${table} ADD ${this.compileForeignDefinition(command.foreign)}`);
+          break;
+        case "dropColumn":
+          statements.push(...command.columns.map((column) => `ALTER TABLE ${table} DROP COLUMN ${this.wrap(column)}`));
+          break;
+        case "renameColumn":
+          statements.push(`ALTER TABLE ${table} RENAME COLUMN ${this.wrap(command.from)} TO ${this.wrap(command.to)}`);
+          break;
+        case "dropForeign":
+          statements.push(this.compileDropForeign(blueprint.table, command.name));
+          break;
+        case "dropIndex":
+        case "dropUnique":
+          statements.push(this.compileDropIndex(blueprint.table, command.name));
+          break;
+      }
+    }
+
+    return [...statements, ...this.compileIndexes(blueprint.table, blueprint.getCommands())];
+  }
+
+  /**
+   * Run the statements of `Schema.alter()`. Grammars override this when the
+   * statements need a transaction or checks around them.
+   */
+  async runAlter(blueprint: Blueprint, connection: DatabaseConnection): Promise<void> {
+    await this.runStatements(await this.compileAlter(blueprint, connection), connection);
+  }
+
+  protected async runStatements(statements: string[], connection: DatabaseConnection): Promise<void> {
+    for (const statement of statements) {
+      await connection.execute(statement);
+    }
+  }
+
+  compileDrop(table: string): string {
+    return `DROP TABLE ${this.wrap(table)}`;
+  }
+
+  compileDropIfExists(table: string): string {
+    return `DROP TABLE IF EXISTS ${this.wrap(table)}`;
+  }
+
+  compileRename(from: string, to: string): string {
+    return `ALTER TABLE ${this.wrap(from)} RENAME TO ${this.wrap(to)}`;
+  }
+
+  /**
+   * Query returning a row when the table exists
+   */
+  abstract compileTableExists(table: string): SqlFragment;
+
+  /**
+   * Query returning one row per column of the table, with the column name under `name`
+   */
+  abstract compileColumnListing(table: string): SqlFragment;
+
+  protected compileAddColumn(column: ColumnDefinition): string {
+    return `ADD COLUMN ${this.compileColumn(column)}`;
+  }
+
+  /**
+   * Statements modifying an existing column
+   */
+  protected abstract compileChange(blueprint: Blueprint, column: ColumnDefinition): string[];
+
+  protected compileDropForeign(table: string, name: string): string {
+    return `ALTER TABLE ${this.wrap(table)} DROP CONSTRAINT ${this.wrap(name)}`;
+  }
+
+  protected compileDropIndex(table: string, name: string): string {
+    return `DROP INDEX ${this.wrap(name)}`;
+  }
+
+  /**
+   * Full column definition, e.g. `"email" VARCHAR(255) NOT NULL`
+   */
+  protected compileColumn(column: ColumnDefinition): string {
+    const sql = [this.wrap(column.name), this.compileType(column)];
+
+    if (column.type === "increments" || column.type === "bigIncrements") {
+      sql.push(this.compileAutoIncrement(column));
+      return sql.join(" ");
+    }
+
+    sql.push(column.isNullable ? "NULL" : "NOT NULL");
+    const defaultValue = this.compileDefaultClause(column);
+    if (defaultValue) sql.push(defaultValue);
+
+    return sql.join(" ");
+  }
+
+  protected compileAutoIncrement(column: ColumnDefinition): string {
+    return `NOT NULL ${this.dialect.autoIncrementKeyword} PRIMARY KEY`;
+  }
+
+  protected compileDefaultClause(column: ColumnDefinition): string {
+    if (column.isUseCurrent) return "DEFAULT CURRENT_TIMESTAMP";
+    if (!column.hasDefault) return "";
+    return `DEFAULT ${this.compileDefault(column.defaultValue)}`;
+  }
+
+  /**
+   * Literal for a default value
+   */
+  protected compileDefault(value: any): string {
+    if (value === null) return "NULL";
+    if (typeof value === "boolean") return value ? "1" : "0";
+    if (typeof value === "number") return String(value);
+    if (value instanceof Date) return this.quoteString(this.dialect.formatDate(value));
+    if (typeof value === "object") return this.quoteString(JSON.stringify(value));
+    return this.quoteString(String(value));
+  }
+
+  protected compileForeignDefinition(foreign: ForeignKeyDefinition): string {
+    if (!foreign.referencedTable) {
+      throw new Error(`Foreign key ${foreign.name} is missing the referenced table. Use .on(table)`);
+    }
+
+    let sql =
+      `CONSTRAINT ${this.wrap(foreign.name)} FOREIGN KEY (${this.columnize(foreign.columns)}) ` +
+      `REFERENCES ${this.wrap(foreign.referencedTable)} (${this.columnize(foreign.referencedColumns)})`;
+
+    if (foreign.onDeleteAction) sql += ` ON DELETE ${foreign.onDeleteAction.toUpperCase()}`;
+    if (foreign.onUpdateAction) sql += ` ON UPDATE ${foreign.onUpdateAction.toUpperCase()}`;
+    return sql;
+  }
+
+  /**
+   * CREATE INDEX statements for the unique/index commands
+   */
+  protected compileIndexes(table: string, commands: SchemaCommand[]): string[] {
+    const statements: string[] = [];
+    for (const command of commands) {
+      if (command.type === "unique" || command.type === "index") {
+        const unique = command.type === "unique" ? "UNIQUE " : "";
+        statements.push(`CREATE ${unique}INDEX ${this.wrap(command.name)} ON ${this.wrap(table)} (${this.columnize(command.columns)})`);
+      }
+    }
+    return statements;
+  }
+
+  protected columnize(columns: string[]): string {
+    return columns.map((column) => this.wrap(column)).join(", ");
+  }
+
+  protected wrap(value: string): string {
+    return this.dialect.wrap(value);
+  }
+
+  protected quoteString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+}
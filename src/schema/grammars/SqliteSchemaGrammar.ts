@@ -0,0 +1,282 @@
+// src/schema/grammars/SqliteSchemaGrammar.ts
+import { SqlFragment } from "../../database/dialects/Dialect";
+import { Transaction } from "../../database/Transaction";
+import { DatabaseConnection } from "../../types/interfaces";
+import { Blueprint, ColumnDefinition, SchemaCommand } from "../Blueprint";
+import { SchemaGrammar } from "./SchemaGrammar";
+
+interface TableInfoRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface ForeignKeyRow {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string;
+  on_update: string;
+  on_delete: string;
+}
+
+interface ForeignKeyCheckRow {
+  table: string;
+  rowid: number | null;
+  parent: string;
+  fkid: number;
+}
+
+interface IndexListRow {
+  name: string;
+  unique: number;
+  origin: string;
+  partial: number;
+}
+
+export class SqliteSchemaGrammar extends SchemaGrammar {
+  protected compileType(column: ColumnDefinition): string {
+    switch (column.type) {
+      case "increments":
+      case "bigIncrements":
+      case "integer":
+      case "bigInteger":
+        return "INTEGER";
+      case "string":
+        return `VARCHAR(${column.length})`;
+      case "text":
+      case "json":
+        return "TEXT";
+      case "decimal":
+        return `NUMERIC(${column.precision}, ${column.scale})`;
+      case "float":
+        return "REAL";
+      case "boolean":
+        return "TINYINT(1)";
+      case "date":
+        return "DATE";
+      case "dateTime":
+      case "timestamp":
+        return "DATETIME";
+      case "uuid":
+        return "VARCHAR(36)";
+    }
+  }
+
+  protected compileAutoIncrement(column: ColumnDefinition): string {
+    // Only "INTEGER PRIMARY KEY" aliases the rowid
+    return `PRIMARY KEY ${this.dialect.autoIncrementKeyword}`;
+  }
+
+  protected compileChange(blueprint: Blueprint, column: ColumnDefinition): string[] {
+    throw new Error("SQLite cannot modify columns in place; the table is rebuilt instead");
+  }
+
+  /**
+   * SQLite only supports adding and renaming columns natively. Anything else
+   * (changing or dropping columns, foreign keys, primary keys) rebuilds the table.
+   */
+  async compileAlter(blueprint: Blueprint, connection: DatabaseConnection): Promise<string[]> {
+    if (!this.requiresRebuild(blueprint)) {
+      return super.compileAlter(blueprint, connection);
+    }
+
+    return this.compileRebuild(blueprint, connection);
+  }
+
+  /**
+   * A rebuild runs in a transaction of its own with foreign key enforcement off, so
+   * dropping the old table does not cascade to the tables referencing it, and is
+   * rolled back when `PRAGMA foreign_key_check` finds broken references. SQLite
+   * ignores that pragma inside a transaction, so there the rebuild is refused
+   * while enforcement is on.
+   */
+  async runAlter(blueprint: Blueprint, connection: DatabaseConnection): Promise<void> {
+    if (!this.requiresRebuild(blueprint)) {
+      return super.runAlter(blueprint, connection);
+    }
+
+    const statements = await this.compileRebuild(blueprint, connection);
+    const [[{ foreign_keys: enforced }]] = await connection.query<{ foreign_keys: number }>("PRAGMA foreign_keys");
+    if (!enforced) {
+      return Transaction.run(connection, (transaction) => this.runStatements(statements, transaction));
+    }
+
+    const current = connection instanceof Transaction ? connection : Transaction.current(connection);
+    if (current && current.transactionLevel > 0) {
+      throw new Error(
+        `Cannot rebuild table ${blueprint.table} inside a transaction while foreign keys are enforced: ` +
+          "dropping the old table would cascade to the tables referencing it. " +
+          "Run the alter outside the transaction (for a migration, set withinTransaction = false)"
+      );
+    }
+
+    await connection.execute("PRAGMA foreign_keys = OFF");
+    try {
+      await Transaction.run(connection, async (transaction) => {
+        await this.runStatements(statements, transaction);
+
+        const [violations] = await transaction.query<ForeignKeyCheckRow>("PRAGMA foreign_key_check");
+        if (violations.length > 0) {
+          const tables = [...new Set(violations.map((row) => `${row.table} -> ${row.parent}`))].join(", ");
+          throw new Error(`Rebuilding table ${blueprint.table} breaks foreign keys (${tables}); the alter was rolled back`);
+        }
+      });
+    } finally {
+      await connection.execute("PRAGMA foreign_keys = ON");
+    }
+  }
+
+  compileTableExists(table: string): SqlFragment {
+    return { sql: "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?", params: [table] };
+  }
+
+  compileColumnListing(table: string): SqlFragment {
+    return { sql: "SELECT name FROM pragma_table_info(?)", params: [table] };
+  }
+
+  protected requiresRebuild(blueprint: Blueprint): boolean {
+    if (blueprint.getChangedColumns().length > 0) return true;
+    return blueprint
+      .getCommands()
+      .some((command) => ["primary", "foreign", "dropColumn", "dropForeign"].includes(command.type));
+  }
+
+  /**
+   * Rebuild the table following the procedure from https://www.sqlite.org/lang_altertable.html:
+   * create the new table, copy the rows, drop the old table, rename, recreate indexes.
+   * runAlter() takes care of foreign key enforcement and the transaction around them.
+   */
+  protected async compileRebuild(blueprint: Blueprint, connection: DatabaseConnection): Promise<string[]> {
+    const table = blueprint.table;
+    const select = async <T>(sql: string, params: any[] = []): Promise<T[]> => (await connection.query<T>(sql, params))[0];
+
+    const columns = await select<TableInfoRow>("SELECT * FROM pragma_table_info(?) ORDER BY cid", [table]);
+    if (columns.length === 0) {
+      throw new Error(`Table ${table} does not exist`);
+    }
+    const foreignKeys = await select<ForeignKeyRow>("SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq", [table]);
+    const indexes = await select<IndexListRow>("SELECT * FROM pragma_index_list(?)", [table]);
+    const [tableRow] = await select<{ sql: string }>("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?", [table]);
+    const autoIncrement = /AUTOINCREMENT/i.test(tableRow?.sql || "");
+
+    const commands = blueprint.getCommands();
+    const dropped = new Set(commands.flatMap((command) => (command.type === "dropColumn" ? command.columns : [])));
+    const renames = new Map<string, string>();
+    for (const command of commands) {
+      if (command.type === "renameColumn") renames.set(command.from, command.to);
+    }
+    const rename = (column: string) => renames.get(column) || column;
+    const changed = new Map(blueprint.getChangedColumns().map((column) => [column.name, column]));
+
+    // Column definitions, remembering which old column each one is copied from
+    const definitions: string[] = [];
+    const targetColumns: string[] = [];
+    const sourceColumns: string[] = [];
+    const primaryColumns = columns.filter((column) => column.pk > 0).sort((a, b) => a.pk - b.pk);
+    const newPrimary = commands.find((command) => command.type === "primary") as Extract<SchemaCommand, { type: "primary" }> | undefined;
+
+    for (const column of columns) {
+      if (dropped.has(column.name)) continue;
+      const name = rename(column.name);
+      const change = changed.get(name) || changed.get(column.name);
+
+      if (change) {
+        definitions.push(this.compileColumn(Object.assign(new ColumnDefinition(name, change.type), change, { name })));
+      } else {
+        let definition = `${this.wrap(name)} ${column.type}`.trim();
+        if (!newPrimary && primaryColumns.length === 1 && column.pk === 1) {
+          definition += " PRIMARY KEY" + (autoIncrement ? ` ${this.dialect.autoIncrementKeyword}` : "");
+        } else if (column.notnull) {
+          definition += " NOT NULL";
+        }
+        if (column.dflt_value !== null) definition += ` DEFAULT ${column.dflt_value}`;
+        definitions.push(definition);
+      }
+
+      targetColumns.push(name);
+      sourceColumns.push(column.name);
+    }
+
+    for (const column of blueprint.getAddedColumns()) {
+      const name = rename(column.name);
+      definitions.push(this.compileColumn(name === column.name ? column : Object.assign(new ColumnDefinition(name, column.type), column, { name })));
+    }
+
+    // Table constraints
+    if (newPrimary) {
+      definitions.push(`PRIMARY KEY (${this.columnize(newPrimary.columns)})`);
+    } else if (primaryColumns.length > 1) {
+      definitions.push(`PRIMARY KEY (${this.columnize(primaryColumns.map((column) => rename(column.name)))})`);
+    }
+
+    const droppedForeign = commands.filter((command) => command.type === "dropForeign") as Extract<SchemaCommand, { type: "dropForeign" }>[];
+    const foreignGroups = new Map<number, ForeignKeyRow[]>();
+    for (const row of foreignKeys) {
+      foreignGroups.set(row.id, [...(foreignGroups.get(row.id) || []), row]);
+    }
+
+    for (const rows of foreignGroups.values()) {
+      const from = rows.map((row) => row.from);
+      const name = blueprint.indexName("foreign", from);
+      const isDropped = droppedForeign.some(
+        (command) => command.name === name || (command.columns && command.columns.join(",") === from.join(","))
+      );
+      if (isDropped || from.some((column) => dropped.has(column))) continue;
+
+      let sql =
+        `CONSTRAINT ${this.wrap(blueprint.indexName("foreign", from.map(rename)))} FOREIGN KEY (${this.columnize(from.map(rename))}) ` +
+        `REFERENCES ${this.wrap(rows[0].table)} (${this.columnize(rows.map((row) => row.to))})`;
+      if (rows[0].on_delete && rows[0].on_delete !== "NO ACTION") sql += ` ON DELETE ${rows[0].on_delete}`;
+      if (rows[0].on_update && rows[0].on_update !== "NO ACTION") sql += ` ON UPDATE ${rows[0].on_update}`;
+      definitions.push(sql);
+    }
+
+    for (const command of commands) {
+      if (command.type === "foreign") {
+        definitions.push(this.compileForeignDefinition(command.foreign));
+      }
+    }
+
+    // Existing indexes are recreated on the new table
+    const droppedIndexes = new Set(
+      commands.flatMap((command) => (command.type === "dropIndex" || command.type === "dropUnique" ? [command.name] : []))
+    );
+    const indexStatements: string[] = [];
+
+    for (const index of indexes) {
+      if (index.origin === "pk" || droppedIndexes.has(index.name)) continue;
+
+      const indexColumns = (await select<{ name: string | null }>("SELECT name FROM pragma_index_info(?) ORDER BY seqno", [index.name])).map(
+        (row) => row.name
+      );
+      if (indexColumns.some((column) => column !== null && dropped.has(column))) continue;
+
+      if (index.partial || indexColumns.includes(null)) {
+        // Partial and expression indexes are recreated from their original SQL
+        const [row] = await select<{ sql: string | null }>("SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?", [index.name]);
+        if (row?.sql) indexStatements.push(row.sql);
+        continue;
+      }
+
+      const renamedColumns = (indexColumns as string[]).map(rename);
+      const name = index.origin === "c" ? index.name : blueprint.indexName("unique", renamedColumns);
+      const unique = index.unique ? "UNIQUE " : "";
+      indexStatements.push(`CREATE ${unique}INDEX ${this.wrap(name)} ON ${this.wrap(table)} (${this.columnize(renamedColumns)})`);
+    }
+
+    const temporary = `__temp__${table}`;
+    return [
+      `CREATE TABLE ${this.wrap(temporary)} (${definitions.join(", ")})`,
+      `INSERT INTO ${this.wrap(temporary)} (${this.columnize(targetColumns)}) SELECT ${this.columnize(sourceColumns)} FROM ${this.wrap(table)}`,
+      `DROP TABLE ${this.wrap(table)}`,
+      `ALTER TABLE ${this.wrap(temporary)} RENAME TO ${this.wrap(table)}`,
+      ...indexStatements,
+      ...this.compileIndexes(table, commands),
+    ];
+  }
+}
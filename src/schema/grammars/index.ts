@@ -0,0 +1,4 @@
+export * from "./SchemaGrammar";
+export * from "./MysqlSchemaGrammar";
+export * from "./SqliteSchemaGrammar";
+export * from "./PostgresSchemaGrammar";
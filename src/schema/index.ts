@@ -0,0 +1,3 @@
+export * from "./Blueprint";
+export * from "./Schema";
+export * from "./grammars";
@@ -0,0 +1,34 @@
+// src/seeders/Seeder.ts
+
+export type SeederClass = new () => Seeder;
+
+/**
+ * Base class for database seeders
+ *
+ * @example
+ * ```typescript
+ * export default class DatabaseSeeder extends Seeder {
+ *   async run() {
+ *     await this.call([UserSeeder, PostSeeder]);
+ *   }
+ * }
+ *
+ * export class UserSeeder extends Seeder {
+ *   async run() {
+ *     await factory(User).count(10).create();
+ *   }
+ * }
+ * ```
+ */
+export abstract class Seeder {
+  abstract run(): Promise<void>;
+
+  /**
+   * Run other seeders in order
+   */
+  protected async call(seeders: SeederClass | SeederClass[]): Promise<void> {
+    for (const SeederType of Array.isArray(seeders) ? seeders : [seeders]) {
+      await new SeederType().run();
+    }
+  }
+}
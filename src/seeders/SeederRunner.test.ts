@@ -0,0 +1,49 @@
+// src/seeders/SeederRunner.test.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SeederRunner } from "./SeederRunner";
+
+const seederModule = path.join(__dirname, "Seeder");
+
+describe("SeederRunner", () => {
+  let directory: string;
+
+  const writeSeeder = (file: string, source: string) =>
+    fs.writeFileSync(path.join(directory, file), `const { Seeder } = require(${JSON.stringify(seederModule)});\n${source}`);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "seeders-"));
+    (global as any).seeded = [];
+    writeSeeder("b_posts.js", `exports.PostSeeder = class PostSeeder extends Seeder { async run() { seeded.push("posts"); } };`);
+    writeSeeder("a_users.js", `exports.UserSeeder = class UserSeeder extends Seeder { async run() { seeded.push("users"); } };`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    delete (global as any).seeded;
+  });
+
+  it("runs every seeder in filename order without a DatabaseSeeder", async () => {
+    expect(await new SeederRunner({ directory }).run()).toEqual(["UserSeeder", "PostSeeder"]);
+    expect((global as any).seeded).toEqual(["users", "posts"]);
+  });
+
+  it("runs only the DatabaseSeeder, which calls the others", async () => {
+    writeSeeder(
+      "database.js",
+      `const { PostSeeder } = require("./b_posts");
+       const { UserSeeder } = require("./a_users");
+       exports.default = class DatabaseSeeder extends Seeder { async run() { await this.call([PostSeeder, UserSeeder]); } };`
+    );
+
+    expect(await new SeederRunner({ directory }).run()).toEqual(["DatabaseSeeder"]);
+    expect((global as any).seeded).toEqual(["posts", "users"]);
+  });
+
+  it("runs one seeder by class name", async () => {
+    expect(await new SeederRunner({ directory }).run("PostSeeder")).toEqual(["PostSeeder"]);
+    expect((global as any).seeded).toEqual(["posts"]);
+    await expect(new SeederRunner({ directory }).run("Missing")).rejects.toThrow("Seeder not found: Missing");
+  });
+});
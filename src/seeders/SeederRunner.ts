@@ -0,0 +1,66 @@
+// src/seeders/SeederRunner.ts
+import fs from "fs";
+import path from "path";
+import { Seeder, SeederClass } from "./Seeder";
+
+export interface SeederRunnerOptions {
+  /**
+   * Directory containing the seeder files (default: ./seeders)
+   */
+  directory?: string;
+}
+
+/**
+ * Loads seeder classes from a directory and runs them
+ *
+ * Without a class name, `DatabaseSeeder` runs when it exists; otherwise every
+ * seeder in the directory runs in filename order.
+ */
+export class SeederRunner {
+  constructor(protected readonly options: SeederRunnerOptions = {}) {}
+
+  /**
+   * Run one seeder by class name, or the default set. Returns the names that ran.
+   */
+  async run(className?: string): Promise<string[]> {
+    const seeders = this.loadDirectory();
+
+    if (className) {
+      const seeder = seeders.find(([name]) => name === className);
+      if (!seeder) {
+        throw new Error(`Seeder not found: ${className}`);
+      }
+      await new seeder[1]().run();
+      return [className];
+    }
+
+    const databaseSeeder = seeders.find(([name]) => name === "DatabaseSeeder");
+    const selected = databaseSeeder ? [databaseSeeder] : seeders;
+    for (const [, SeederType] of selected) {
+      await new SeederType().run();
+    }
+    return selected.map(([name]) => name);
+  }
+
+  /**
+   * Seeder classes keyed by class name, in filename order
+   */
+  protected loadDirectory(): [string, SeederClass][] {
+    const directory = path.resolve(this.options.directory || "seeders");
+    if (!fs.existsSync(directory)) return [];
+
+    const seeders: [string, SeederClass][] = [];
+    for (const file of fs.readdirSync(directory).sort()) {
+      if (!/\.(js|cjs|ts)$/.test(file) || file.endsWith(".d.ts")) continue;
+
+      const exported = require(path.join(directory, file));
+      for (const value of [exported.default, ...Object.values(exported)]) {
+        if (typeof value === "function" && value.prototype instanceof Seeder && !seeders.some(([name]) => name === value.name)) {
+          seeders.push([value.name, value as SeederClass]);
+        }
+      }
+    }
+
+    return seeders;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./Seeder";
+export * from "./SeederRunner";
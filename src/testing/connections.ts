@@ -0,0 +1,34 @@
+// src/testing/connections.ts
+import { newDb } from "pg-mem";
+import { BaseModel } from "../BaseModel";
+import { OrmConfig } from "../types/interfaces";
+
+export type TestConnectionName = "sqlite" | "pg-mem";
+
+/**
+ * Databases the specs run against without a server: SQLite in memory and
+ * PostgreSQL emulated by pg-mem. Each call returns a fresh, empty database.
+ */
+export const connections: [TestConnectionName, () => OrmConfig][] = [
+  ["sqlite", () => ({ client: "sqlite", connection: { filename: ":memory:" } })],
+  ["pg-mem", () => ({ client: "postgres", connection: { driver: newDb().adapters.createPg() } })],
+];
+
+/**
+ * Declare a suite once per test connection. Every test starts on a fresh
+ * database, initialized before the suite's own beforeEach hooks create its
+ * schema, and the connections are closed after it.
+ *
+ * @example
+ * describeEachConnection("pagination", (name) => {
+ *   beforeEach(() => Schema.create("posts", (table) => table.increments()));
+ *   it("...", async () => {});
+ * });
+ */
+export function describeEachConnection(title: string, body: (name: TestConnectionName) => void): void {
+  describe.each(connections)(`${title} on %s`, (name, config) => {
+    beforeEach(() => BaseModel.initialize(config()));
+    afterEach(() => BaseModel.closeConnections());
+    body(name);
+  });
+}
@@ -0,0 +1,67 @@
+// src/testing/recording.ts
+import { BaseModel } from "../BaseModel";
+import { Dialect } from "../database/dialects";
+import { DatabaseFactory } from "../database/factory";
+import { DatabaseConnection } from "../types/interfaces";
+
+/**
+ * Connection that runs nothing: it records every statement, with its bindings,
+ * and answers reads with `rows` and writes with a single affected row. Used to
+ * check the SQL of dialects the specs have no database for.
+ */
+export class RecordingConnection implements DatabaseConnection {
+  readonly statements: string[] = [];
+  rows: any[] = [];
+  /**
+   * Statements matching it fail after being recorded, e.g. to check a rollback
+   */
+  failOn?: RegExp;
+
+  constructor(readonly dialect: Dialect) {}
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<[T[], any]> {
+    this.record(sql, params);
+    return [this.rows, {}];
+  }
+
+  async execute(sql: string, params: any[] = []): Promise<any> {
+    this.record(sql, params);
+    // Understood by both the MySQL and the PostgreSQL dialect
+    return { insertId: 1, affectedRows: 1, rowCount: 1, rows: [{ id: 1 }] };
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return this;
+  }
+
+  async beginTransaction(): Promise<void> {
+    this.record("BEGIN");
+  }
+
+  async commit(): Promise<void> {
+    this.record("COMMIT");
+  }
+
+  async rollback(): Promise<void> {
+    this.record("ROLLBACK");
+  }
+
+  async release(): Promise<void> {}
+
+  protected record(sql: string, params: any[] = []): void {
+    this.statements.push(params.length > 0 ? `${sql} ${JSON.stringify(params)}` : sql);
+    if (this.failOn?.test(sql)) {
+      throw new Error(`Failed on purpose: ${sql}`);
+    }
+  }
+}
+
+/**
+ * Initialize BaseModel on a RecordingConnection speaking the dialect of the given client
+ */
+export async function recordStatements(client: "mysql" | "postgres"): Promise<RecordingConnection> {
+  const connection = new RecordingConnection(DatabaseFactory.getDialect(client));
+  DatabaseFactory.registerDialect(`recorded-${client}`, { dialect: connection.dialect, connect: async () => connection });
+  await BaseModel.initialize({ client: `recorded-${client}`, connection: {} });
+  return connection;
+}
@@ -14,6 +14,17 @@ export type PaginatedResult<T> = {
   lastPage: number;
 };
 
+/**
+ * Type for keyset (cursor) paginated results. Cursors are opaque strings, null
+ * when there is no page in that direction.
+ */
+export type CursorPaginatedResult<T> = {
+  data: T[];
+  perPage: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
 /**
  * Type for model class constructor
  */
@@ -30,3 +41,23 @@ export type WithRelations<T, R extends string> = T & {
  * Type for model attributes
  */
 export type ModelAttributes<T> = Omit<T, keyof BaseModel>;
+
+/**
+ * Chainable methods of a model's static scopes map, for declaration merging
+ *
+ * @example
+ * ```typescript
+ * const userScopes = {
+ *   active: (query: User) => query.where('active', true),
+ *   olderThan: (query: User, age: number) => query.where('age', '>', age),
+ * };
+ *
+ * interface User extends ScopeMethods<typeof userScopes, User> {}
+ * class User extends BaseModel {
+ *   static scopes = userScopes;
+ * }
+ * ```
+ */
+export type ScopeMethods<S, M> = {
+  [K in keyof S]: S[K] extends (query: any, ...args: infer A) => any ? (...args: A) => M : never;
+};
@@ -1,9 +1,28 @@
 import { BaseModel } from "../BaseModel";
+import { Dialect } from "../database/dialects/Dialect";
+import type { CastDefinition } from "../casts/Cast";
 
 // src/database/interfaces.ts
 export interface DatabaseConnection {
+  readonly dialect: Dialect;
   query<T = any>(sql: string, params?: any[]): Promise<[T[], any]>;
   execute(sql: string, params?: any[]): Promise<any>;
+  /**
+   * Reserve a single underlying connection (e.g. for a transaction); release() hands it back
+   */
+  acquireConnection(): Promise<DatabaseConnection>;
+  /**
+   * Set on a reserved connection that every other query waits for until it is released, as on SQLite
+   */
+  readonly exclusive?: boolean;
+  /**
+   * Connection to run plain reads on, e.g. a replica. Connections without one read from themselves.
+   */
+  readConnection?(): DatabaseConnection;
+  /**
+   * Rows of a query one at a time, fetching more only as they are consumed
+   */
+  stream?<T = any>(sql: string, params?: any[]): AsyncIterable<T>;
   beginTransaction(): Promise<void>;
   commit(): Promise<void>;
   rollback(): Promise<void>;
@@ -11,11 +30,133 @@ export interface DatabaseConnection {
 }
 
 export interface DatabaseConfig {
-  client: "mysql" | "sqlite";
-  connection: MysqlConnectionConfig | SqliteConnectionConfig;
+  client: "mysql" | "sqlite" | "postgres" | (string & {});
+  connection: MysqlConnectionConfig | SqliteConnectionConfig | PostgresConnectionConfig | Record<string, any>;
+  logging?: LoggingConfig;
+  migrations?: MigrationConfig;
+  seeders?: SeederConfig;
 }
 
-export interface MysqlConnectionConfig {
+/**
+ * A statement that ran on a connection
+ */
+export interface QueryEvent {
+  sql: string;
+  bindings: any[];
+  /**
+   * Milliseconds the statement took
+   */
+  duration: number;
+  /**
+   * Name of the connection it ran on
+   */
+  connection: string;
+  /**
+   * Rows returned by a query, or affected by a statement
+   */
+  rowCount: number;
+  /**
+   * Whether the duration reached `slowQueryThreshold`
+   */
+  slow: boolean;
+}
+
+/**
+ * A statement that failed
+ */
+export interface QueryErrorEvent extends Omit<QueryEvent, "rowCount" | "slow"> {
+  error: unknown;
+}
+
+export interface QueryLogger {
+  query?(event: QueryEvent): void;
+  queryError?(event: QueryErrorEvent): void;
+}
+
+export interface LoggingConfig {
+  /**
+   * Receives every query and failed query of the connection
+   */
+  logger?: QueryLogger;
+  /**
+   * Duration in milliseconds from which queries are flagged as slow
+   */
+  slowQueryThreshold?: number;
+  /**
+   * Hide binding values in events: `true` replaces each one with "[REDACTED]",
+   * a function maps every value
+   */
+  redactBindings?: boolean | ((value: any, index: number, sql: string) => any);
+  /**
+   * Only report queries flagged as slow to the logger
+   */
+  slowQueriesOnly?: boolean;
+}
+
+/**
+ * Several named connections; models pick one with `@ModelConfig({ connection })` or `.on(name)`
+ */
+export interface ConnectionsConfig {
+  /**
+   * Connection models use when they don't name one (default: the first one)
+   */
+  default?: string;
+  connections: Record<string, DatabaseConfig>;
+  /**
+   * Logging of connections that don't configure their own
+   */
+  logging?: LoggingConfig;
+  migrations?: MigrationConfig;
+  seeders?: SeederConfig;
+}
+
+export type OrmConfig = DatabaseConfig | ConnectionsConfig;
+
+export interface MigrationConfig {
+  /**
+   * Directory containing the migration files (default: ./migrations)
+   */
+  directory?: string;
+  /**
+   * Bookkeeping table (default: migrations)
+   */
+  tableName?: string;
+}
+
+export interface SeederConfig {
+  /**
+   * Directory containing the seeder files (default: ./seeders)
+   */
+  directory?: string;
+}
+
+/**
+ * Registration of a third-party dialect with `DatabaseFactory.registerDialect`
+ */
+export interface DialectRegistration {
+  dialect: Dialect;
+  connect(config: any, dialect: Dialect): Promise<DatabaseConnection>;
+}
+
+/**
+ * Primary/replica setup of a connection. The `write` and `read` entries are
+ * merged over the base connection settings.
+ */
+export interface ReplicationConfig<T = Record<string, any>> {
+  write?: Partial<T>;
+  read?: Partial<T>[];
+  /**
+   * How a replica is picked for each read (default: round-robin)
+   */
+  readStrategy?: "round-robin" | "random";
+  /**
+   * Read from the primary after a write within the same ReadWriteConnection.scope();
+   * outside of a scope, reads always go to a replica
+   */
+  sticky?: boolean;
+}
+
+export interface MysqlConnectionConfig extends ReplicationConfig<MysqlConnectionConfig> {
   host: string;
   user: string;
   password: string;
@@ -25,6 +166,23 @@ export interface MysqlConnectionConfig {
 
 export interface SqliteConnectionConfig {
   filename: string;
+  /**
+   * Milliseconds a query waits for a transaction holding the database before failing (default: 5000)
+   */
+  busyTimeout?: number;
+}
+
+export interface PostgresConnectionConfig extends ReplicationConfig<PostgresConnectionConfig> {
+  host?: string;
+  user?: string;
+  password?: string;
+  database?: string;
+  port?: number;
+  connectionString?: string;
+  /**
+   * pg-compatible driver module, e.g. `newDb().adapters.createPg()` from pg-mem
+   */
+  driver?: { Pool: new (config?: any) => any };
 }
 
 export enum RelationType {
@@ -32,7 +190,23 @@ export enum RelationType {
   HAS_MANY = "hasMany",
   BELONGS_TO = "belongsTo",
   BELONGS_TO_MANY = "belongsToMany",
+  MORPH_TO = "morphTo",
+  MORPH_ONE = "morphOne",
+  MORPH_MANY = "morphMany",
+  MORPH_TO_MANY = "morphToMany",
+  HAS_MANY_THROUGH = "hasManyThrough",
+  HAS_ONE_THROUGH = "hasOneThrough",
 }
+/**
+ * Constraint added to every query of a model
+ */
+export type GlobalScope = (query: BaseModel) => void;
+
+/**
+ * A reusable constraint: receives the query and the arguments given to the scope method
+ */
+export type LocalScope = (query: any, ...args: any[]) => unknown;
+
 export interface EagerLoadConstraint {
   [key: string]: (query: BaseModel) => void;
 }
@@ -49,19 +223,135 @@ export interface WhereOperator {
 export type WhereValue = WhereOperator | any;
 export interface Relation {
   type: RelationType;
-  model: typeof BaseModel;
+  /**
+   * Related model; morphTo relations resolve it from their type column instead
+   */
+  model?: typeof BaseModel;
   foreignKey?: string;
   localKey?: string;
   pivotTable?: string;
   relatedKey?: string;
+  /**
+   * Extra pivot columns loaded under `pivot` on belongsToMany records
+   */
+  withPivot?: string[];
+  /**
+   * Whether attach() and sync() set the parent model's createdAt/updatedAt columns on
+   * pivot rows (default: the parent's `timestamps` config)
+   */
+  pivotTimestamps?: boolean;
+  /**
+   * Prefix of the `{name}_type` and `{name}_id` columns of polymorphic relations
+   */
+  morphName?: string;
+  /**
+   * Column holding the morph type (default: `{morphName}_type`)
+   */
+  morphType?: string;
+  /**
+   * Intermediate model of hasManyThrough and hasOneThrough relations
+   */
+  through?: typeof BaseModel;
+  /**
+   * Column of the intermediate table pointing to the parent (default: `{parent}_id`)
+   */
+  firstKey?: string;
+  /**
+   * Column of the related table pointing to the intermediate one (default: `{through}_id`)
+   */
+  secondKey?: string;
+  /**
+   * Column of the intermediate table `secondKey` matches (default: its primary key)
+   */
+  secondLocalKey?: string;
+}
+
+/**
+ * Columns linking a relation to its parent model, qualified with their tables
+ */
+export interface RelationKeys {
+  /**
+   * Column on the related table, or on the pivot or intermediate table
+   */
+  relatedColumn: string;
+  /**
+   * Column of the parent model it matches
+   */
+  parentColumn: string;
+  /**
+   * For morphOne and morphMany: the related table's type column and the parent's morph type
+   */
+  morphType?: { column: string; value: string };
+  /**
+   * For belongsToMany: the pivot column pointing to the related table, and the column it
+   * matches. morphToMany pivots also have a type column. For through relations: the
+   * intermediate table's column and the related table's column pointing to it.
+   */
+  pivot?: { table: string; column: string; relatedColumn: string; morphType?: { column: string; value: string } };
 }
 
+/**
+ * Options of insertMany() and upsert()
+ */
+export interface BulkWriteOptions {
+  /**
+   * Run the beforeCreate/afterCreate hooks for every row (default: false). Not
+   * available to upsert(), which runs no hooks.
+   */
+  hooks?: boolean;
+  /**
+   * Most rows per statement; batches are also kept under the dialect's parameter limit
+   */
+  batchSize?: number;
+}
+
+/**
+ * Options of updateMany()
+ */
+export interface UpdateManyOptions {
+  /**
+   * Column identifying the row each entry updates (default: the primary key)
+   */
+  key?: string;
+  /**
+   * Most rows per statement; batches are also kept under the dialect's parameter limit
+   */
+  batchSize?: number;
+}
+
+/**
+ * Related records for pivot writes: a key or model, a list of them, or a map of key to pivot attributes
+ */
+export type PivotIds = string | number | BaseModel | (string | number | BaseModel)[] | Record<string, Record<string, any>>;
+
+/**
+ * Related keys attached, detached and updated by sync()
+ */
+export interface SyncResult {
+  attached: any[];
+  detached: any[];
+  updated: any[];
+}
+
+/**
+ * Lifecycle hooks a model runs around writes
+ */
+export type ModelHook = "beforeCreate" | "afterCreate" | "beforeUpdate" | "afterUpdate" | "beforeDelete" | "afterDelete";
+
 export interface ModelConfig {
   timestamps?: boolean;
   softDeletes?: boolean;
   createdAt?: string;
   updatedAt?: string;
   deletedAt?: string;
+  /**
+   * Name of the connection the model's queries run on
+   */
+  connection?: string;
+  /**
+   * Attribute casts, e.g. `{ settings: 'json', active: 'boolean', price: 'decimal:2' }`
+   */
+  casts?: Record<string, CastDefinition>;
 }
 
 export interface QueryOptions {
@@ -75,7 +365,8 @@ export interface WhereCondition {
   conditions?: WhereCondition[];
   conjunction?: "AND" | "OR";
   operator?: string;
-  group_level?: number;
+  sql?: string;
+  params?: any[];
 }
 
 export interface WhereInCondition {